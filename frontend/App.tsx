@@ -1,23 +1,33 @@
 import React, { useState } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, DefaultTheme } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import Toast from 'react-native-toast-message';
+import { useFonts } from 'expo-font';
 
 import { Colors } from './src/constants/colors';
+import { FontFiles } from './src/constants/fontFiles';
+import { linking } from './src/config/linking';
 import { RootStackParamList, Post } from './src/types';
 import MainScreen from './src/screens/MainScreen';
 import PostComposerScreen from './src/screens/PostComposerScreen';
+import PostDetailScreen from './src/screens/PostDetailScreen';
 import ProfileScreen from './src/screens/ProfileScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
+import DraftsScreen from './src/screens/DraftsScreen';
 
 const Stack = createStackNavigator<RootStackParamList>();
 
 export default function App() {
+  // Post fonts have to be registered before anything draws text with them
+  const [fontsLoaded, fontError] = useFonts(FontFiles);
+  if (!fontsLoaded && !fontError) return null;
+
   return (
     <SafeAreaProvider>
-      <NavigationContainer theme={{
+      <NavigationContainer linking={linking} theme={{
+        ...DefaultTheme,
         dark: false,
         colors: {
           primary: Colors.accent,
@@ -48,6 +58,10 @@ export default function App() {
               cardStyle: { backgroundColor: Colors.background },
             }}
           />
+          <Stack.Screen 
+            name="PostDetail" 
+            component={PostDetailScreen}
+          />
           <Stack.Screen 
             name="Profile" 
             component={ProfileScreen}
@@ -64,6 +78,14 @@ export default function App() {
               presentation: 'modal',
             }}
           />
+          <Stack.Screen 
+            name="Drafts" 
+            component={DraftsScreen}
+            options={{
+              headerShown: false,
+              presentation: 'modal',
+            }}
+          />
         </Stack.Navigator>
         <StatusBar style="dark" backgroundColor={Colors.background} />
         <Toast />
@@ -0,0 +1,108 @@
+import React, { useId } from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import Svg, { Circle, Defs, Pattern, Rect } from 'react-native-svg';
+import { BackgroundPattern, CanvasBackground } from '../types';
+
+interface Props {
+  background: CanvasBackground;
+  ratio: number;   // Screen points per canvas unit
+  originX?: number; // Where the canvas origin sits, so patterns line up with the posted image
+  originY?: number;
+  style?: StyleProp<ViewStyle>;
+  children?: React.ReactNode;
+}
+
+// Start/end points for a CSS-style gradient angle (180 = top to bottom)
+export const getGradientPoints = (angle: number) => {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians) / 2;
+  const dy = -Math.cos(radians) / 2;
+  return {
+    start: { x: 0.5 - dx, y: 0.5 - dy },
+    end: { x: 0.5 + dx, y: 0.5 + dy },
+  };
+};
+
+// Must match the server renderer exactly, or noise backgrounds come out different
+const mulberry32 = (seed: number) => () => {
+  let t = (seed += 0x6d2b79f5);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Noise is a tile of this many cells square, repeated
+const NOISE_TILE_CELLS = 8;
+const NOISE_DOTS = 48;
+
+const renderPatternCells = ({ kind, color, size, seed }: BackgroundPattern, ratio: number) => {
+  const cell = size * ratio;
+  switch (kind) {
+    case 'stripes':
+      return { tile: cell * 2, shapes: <Rect x={0} y={0} width={cell} height={cell * 2} fill={color} /> };
+    case 'checkerboard':
+      return {
+        tile: cell * 2,
+        shapes: (
+          <>
+            <Rect x={0} y={0} width={cell} height={cell} fill={color} />
+            <Rect x={cell} y={cell} width={cell} height={cell} fill={color} />
+          </>
+        ),
+      };
+    case 'noise': {
+      const tile = cell * NOISE_TILE_CELLS;
+      const random = mulberry32(seed);
+      const dots = Array.from({ length: NOISE_DOTS }, (_, index) => (
+        <Circle
+          key={index}
+          cx={random() * tile}
+          cy={random() * tile}
+          r={cell * (0.1 + random() * 0.25)}
+          fill={color}
+          opacity={0.2 + random() * 0.6}
+        />
+      ));
+      return { tile, shapes: <>{dots}</> };
+    }
+  }
+};
+
+// The canvas background - colour, then gradient, then pattern - with whatever sits on it as children
+export default function CanvasBackgroundView({ background, ratio, originX = 0, originY = 0, style, children }: Props) {
+  const patternId = `pattern-${useId().replace(/[^a-zA-Z0-9]/g, '')}`;
+  const { color, gradient, gradientAngle, pattern } = background;
+  const cells = pattern && renderPatternCells(pattern, ratio);
+
+  return (
+    <View style={[style, { backgroundColor: color }]}>
+      {gradient.length > 1 && (
+        <LinearGradient
+          colors={gradient as [string, string, ...string[]]}
+          {...getGradientPoints(gradientAngle)}
+          style={StyleSheet.absoluteFill}
+          pointerEvents="none"
+        />
+      )}
+      {cells && (
+        <Svg style={StyleSheet.absoluteFill} pointerEvents="none">
+          <Defs>
+            <Pattern
+              id={patternId}
+              patternUnits="userSpaceOnUse"
+              width={cells.tile}
+              height={cells.tile}
+              // Stripes are vertical bars turned diagonal
+              patternTransform={`translate(${originX} ${originY})${pattern?.kind === 'stripes' ? ' rotate(45)' : ''}`}
+            >
+              {cells.shapes}
+            </Pattern>
+          </Defs>
+          <Rect x={0} y={0} width="100%" height="100%" fill={`url(#${patternId})`} />
+        </Svg>
+      )}
+      {children}
+    </View>
+  );
+}
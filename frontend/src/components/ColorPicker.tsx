@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { PanGestureHandler, State } from 'react-native-gesture-handler';
+
+interface Props {
+  color: string; // #RRGGBB
+  onChange: (color: string) => void;
+  width: number;
+}
+
+interface Hsv {
+  h: number; // 0-360
+  s: number; // 0-1
+  v: number; // 0-1
+}
+
+const SQUARE_HEIGHT = 120;
+const HUE_BAR_HEIGHT = 20;
+const THUMB_SIZE = 18;
+const HUE_STOPS: [string, string, ...string[]] = ['#FF0000', '#FFFF00', '#00FF00', '#00FFFF', '#0000FF', '#FF00FF', '#FF0000'];
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+const hexToHsv = (hex: string): Hsv => {
+  const value = parseInt(hex.replace('#', '').slice(0, 6), 16) || 0;
+  const r = ((value >> 16) & 255) / 255;
+  const g = ((value >> 8) & 255) / 255;
+  const b = (value & 255) / 255;
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+  }
+  return { h: (h * 60 + 360) % 360, s: max === 0 ? 0 : delta / max, v: max };
+};
+
+const hsvToHex = ({ h, s, v }: Hsv) => {
+  const channel = (n: number) => {
+    const k = (n + h / 60) % 6;
+    const value = v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(5)}${channel(3)}${channel(1)}`.toUpperCase();
+};
+
+// Saturation/brightness square over a hue bar
+export default function ColorPicker({ color, onChange, width }: Props) {
+  // Kept locally so hue survives dragging through greys, where the hex can't hold it
+  const [hsv, setHsv] = useState<Hsv>(() => hexToHsv(color));
+
+  useEffect(() => {
+    if (hsvToHex(hsv) !== color.toUpperCase()) setHsv(hexToHsv(color));
+  }, [color]);
+
+  const update = (next: Hsv) => {
+    setHsv(next);
+    onChange(hsvToHex(next));
+  };
+
+  const handleSquare = (event: any) => {
+    const { state, x, y } = event.nativeEvent;
+    if (state !== State.BEGAN && state !== State.ACTIVE) return;
+    update({ ...hsv, s: clamp(x / width), v: clamp(1 - y / SQUARE_HEIGHT) });
+  };
+
+  const handleHue = (event: any) => {
+    const { state, x } = event.nativeEvent;
+    if (state !== State.BEGAN && state !== State.ACTIVE) return;
+    update({ ...hsv, h: clamp(x / width) * 359.9 });
+  };
+
+  return (
+    <View style={{ width }}>
+      <PanGestureHandler minDist={0} onGestureEvent={handleSquare} onHandlerStateChange={handleSquare}>
+        <View style={[styles.square, { backgroundColor: hsvToHex({ h: hsv.h, s: 1, v: 1 }) }]}>
+          <LinearGradient
+            colors={['#FFFFFF', 'rgba(255,255,255,0)']}
+            start={{ x: 0, y: 0.5 }}
+            end={{ x: 1, y: 0.5 }}
+            style={StyleSheet.absoluteFill}
+          />
+          <LinearGradient colors={['rgba(0,0,0,0)', '#000000']} style={StyleSheet.absoluteFill} />
+          <View
+            pointerEvents="none"
+            style={[
+              styles.thumb,
+              { left: hsv.s * width - THUMB_SIZE / 2, top: (1 - hsv.v) * SQUARE_HEIGHT - THUMB_SIZE / 2 },
+            ]}
+          />
+        </View>
+      </PanGestureHandler>
+
+      <PanGestureHandler minDist={0} onGestureEvent={handleHue} onHandlerStateChange={handleHue}>
+        <View style={styles.hueBar}>
+          <LinearGradient
+            colors={HUE_STOPS}
+            start={{ x: 0, y: 0.5 }}
+            end={{ x: 1, y: 0.5 }}
+            style={StyleSheet.absoluteFill}
+          />
+          <View
+            pointerEvents="none"
+            style={[styles.thumb, { left: (hsv.h / 360) * width - THUMB_SIZE / 2, top: (HUE_BAR_HEIGHT - THUMB_SIZE) / 2 }]}
+          />
+        </View>
+      </PanGestureHandler>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  square: {
+    height: SQUARE_HEIGHT,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  hueBar: {
+    height: HUE_BAR_HEIGHT,
+    marginTop: 12,
+    borderRadius: HUE_BAR_HEIGHT / 2,
+    overflow: 'hidden',
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    borderWidth: 3,
+    borderColor: 'white',
+  },
+});
@@ -0,0 +1,111 @@
+import React from 'react';
+import { View, Image, StyleSheet } from 'react-native';
+import { ComposerTextElement, LayerGeometry } from '../types';
+import { Draft } from '../services/drafts';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../services/canvasLayout';
+import CanvasBackgroundView from './CanvasBackgroundView';
+import DrawingLayerView from './DrawingLayerView';
+import { ImageLayerContent, RepostLayerContent } from './ImageLayerView';
+import StyledText from './StyledText';
+
+interface Props {
+  draft: Draft;
+  width: number;
+}
+
+// Miniature of the composer canvas, drawn from the saved draft state
+export default function DraftThumbnail({ draft, width }: Props) {
+  // Drafts are laid out on the logical canvas, so scale everything down uniformly
+  const ratio = width / CANVAS_WIDTH;
+  const height = CANVAS_HEIGHT * ratio;
+  const { repostData } = draft;
+
+  const getLayerStyle = (layer: LayerGeometry) => ({
+    left: (layer.x - layer.width / 2) * ratio,
+    top: (layer.y - layer.height / 2) * ratio,
+    width: layer.width * ratio,
+    height: layer.height * ratio,
+    transform: [{ rotate: `${layer.rotation}deg` }, { scale: layer.scale }],
+  });
+
+  const renderTextElement = (element: ComposerTextElement) => {
+    if (!element.content.trim()) return null;
+    const fontSize = element.fontSize * ratio;
+
+    return (
+      <View
+        key={element.id}
+        style={[
+          styles.text,
+          {
+            left: element.x * ratio - width / 2,
+            top: element.y * ratio - fontSize / 2,
+            width,
+            transform: [{ rotate: `${element.rotation ?? 0}deg` }, { scale: element.scale }],
+          },
+        ]}
+      >
+        <StyledText element={element} text={element.content} ratio={ratio} numberOfLines={3} />
+      </View>
+    );
+  };
+
+  const children = (
+    <>
+      {repostData?.geometry ? (
+        <View style={[styles.layer, getLayerStyle(repostData.geometry)]}>
+          <RepostLayerContent uri={repostData.screenshotUri} geometry={repostData.geometry} />
+        </View>
+      ) : (
+        // Not placed yet - the composer centres it when the draft opens
+        repostData?.screenshotUri && (
+          <Image source={{ uri: repostData.screenshotUri }} style={styles.repostImage} resizeMode="contain" />
+        )
+      )}
+      <DrawingLayerView
+        strokes={draft.drawingStrokes}
+        canvasWidth={CANVAS_WIDTH}
+        canvasHeight={CANVAS_HEIGHT}
+      />
+      {draft.imageLayers?.map(layer => (
+        <View key={layer.id} style={[styles.layer, getLayerStyle(layer)]}>
+          <ImageLayerContent layer={layer} height={layer.height * ratio} />
+        </View>
+      ))}
+      {draft.textElements.map(renderTextElement)}
+    </>
+  );
+
+  return (
+    <CanvasBackgroundView
+      background={{
+        color: draft.backgroundColor,
+        gradient: draft.backgroundGradient,
+        gradientAngle: draft.backgroundGradientAngle,
+        pattern: draft.backgroundPattern,
+      }}
+      ratio={ratio}
+      style={[styles.canvas, { width, height }]}
+    >
+      {children}
+    </CanvasBackgroundView>
+  );
+}
+
+const styles = StyleSheet.create({
+  canvas: {
+    overflow: 'hidden',
+    borderRadius: 8,
+  },
+  repostImage: {
+    ...StyleSheet.absoluteFillObject,
+    opacity: 0.7,
+  },
+  layer: {
+    position: 'absolute',
+  },
+  text: {
+    position: 'absolute',
+    alignItems: 'center',
+  },
+});
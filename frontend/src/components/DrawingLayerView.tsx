@@ -0,0 +1,117 @@
+import React, { useId } from 'react';
+import { StyleSheet } from 'react-native';
+import Svg, { Defs, G, Mask, Path, Rect } from 'react-native-svg';
+import { BrushTool, DrawingStroke } from '../types';
+
+interface Props {
+  strokes: DrawingStroke[];
+  canvasWidth: number;  // Coordinate space the strokes were drawn in
+  canvasHeight: number;
+}
+
+// Widths are in canvas units, like the stroke paths
+export const BrushTools: Record<BrushTool, { name: string; widths: number[] }> = {
+  pen: { name: 'Pen', widths: [8, 16, 28] },
+  marker: { name: 'Marker', widths: [32, 56, 88] },
+  neon: { name: 'Neon', widths: [12, 22, 34] },
+  eraser: { name: 'Eraser', widths: [32, 64, 110] },
+};
+
+// Smooths raw touch points into quadratic curves through each segment's midpoint
+export const pointsToPath = (points: { x: number; y: number }[]) => {
+  if (points.length === 0) return '';
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const [first] = points;
+  if (points.length < 3) {
+    // A tap still leaves a dot
+    const last = points[points.length - 1];
+    return `M${round(first.x)} ${round(first.y)} L${round(last.x + 0.1)} ${round(last.y)}`;
+  }
+
+  let d = `M${round(first.x)} ${round(first.y)}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const midX = (points[i].x + points[i + 1].x) / 2;
+    const midY = (points[i].y + points[i + 1].y) / 2;
+    d += ` Q${round(points[i].x)} ${round(points[i].y)} ${round(midX)} ${round(midY)}`;
+  }
+  const last = points[points.length - 1];
+  return `${d} L${round(last.x)} ${round(last.y)}`;
+};
+
+const renderStroke = (stroke: DrawingStroke) => {
+  const common = {
+    d: stroke.path,
+    fill: 'none',
+    strokeLinecap: 'round' as const,
+    strokeLinejoin: 'round' as const,
+  };
+
+  switch (stroke.tool) {
+    case 'marker':
+      return (
+        <Path
+          key={stroke.id}
+          {...common}
+          stroke={stroke.color}
+          strokeWidth={stroke.width}
+          strokeLinecap="square"
+          strokeOpacity={0.5}
+        />
+      );
+    case 'neon':
+      // Fake the glow with wide translucent passes under a white core
+      return (
+        <G key={stroke.id}>
+          <Path {...common} stroke={stroke.color} strokeWidth={stroke.width * 3} strokeOpacity={0.25} />
+          <Path {...common} stroke={stroke.color} strokeWidth={stroke.width * 1.6} strokeOpacity={0.6} />
+          <Path {...common} stroke="#FFFFFF" strokeWidth={stroke.width * 0.5} />
+        </G>
+      );
+    default:
+      return <Path key={stroke.id} {...common} stroke={stroke.color} strokeWidth={stroke.width} />;
+  }
+};
+
+// Renders drawing strokes scaled from their canvas coordinates to whatever size this view is given
+export default function DrawingLayerView({ strokes, canvasWidth, canvasHeight }: Props) {
+  // Mask ids have to be unique per rendered layer (e.g. a grid of draft thumbnails)
+  const idPrefix = useId().replace(/[^a-zA-Z0-9]/g, '');
+
+  if (strokes.length === 0) return null;
+
+  // Each eraser stroke masks out everything drawn before it, so nest the content as we go
+  const masks: React.ReactNode[] = [];
+  let content: React.ReactNode[] = [];
+  strokes.forEach(stroke => {
+    if (stroke.tool !== 'eraser') {
+      content.push(renderStroke(stroke));
+      return;
+    }
+    const maskId = `${idPrefix}-erase-${stroke.id}`;
+    masks.push(
+      <Mask key={maskId} id={maskId} maskUnits="userSpaceOnUse" x={0} y={0} width={canvasWidth} height={canvasHeight}>
+        <Rect x={0} y={0} width={canvasWidth} height={canvasHeight} fill="#FFFFFF" />
+        <Path
+          d={stroke.path}
+          fill="none"
+          stroke="#000000"
+          strokeWidth={stroke.width}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      </Mask>
+    );
+    content = [<G key={maskId} mask={`url(#${maskId})`}>{content}</G>];
+  });
+
+  return (
+    <Svg
+      style={StyleSheet.absoluteFill}
+      viewBox={`0 0 ${canvasWidth} ${canvasHeight}`}
+      pointerEvents="none"
+    >
+      {masks.length > 0 && <Defs>{masks}</Defs>}
+      {content}
+    </Svg>
+  );
+}
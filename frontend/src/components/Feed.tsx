@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, forwardRef, useImperativeHandle } from 'react';
 import {
   View,
   FlatList,
@@ -7,37 +7,97 @@ import {
   ActivityIndicator,
   Text,
   Alert,
+  AppState,
+  AppStateStatus,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+  ViewToken,
 } from 'react-native';
 import Toast from 'react-native-toast-message';
+import NetInfo from '@react-native-community/netinfo';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../constants/colors';
-import { Post, FeedResponse } from '../types';
+import { Post, FeedResponse, ReactionId, RootStackParamList } from '../types';
 import { api, endpoints } from '../config/api';
+import {
+  websocketService,
+  NewPostMessage,
+  BackfillMessage,
+  PostUpdatedMessage,
+  PostRemovedMessage,
+  UserBannedMessage,
+  ReactionsUpdatedMessage,
+} from '../services/websocket';
+import { cachePosts } from '../services/postCache';
+import { impressionService } from '../services/impressions';
+import { loadFeedCache, saveFeedCache, FeedPage } from '../services/feedCache';
+import { outboxService, useOutbox } from '../services/outbox';
+import { buildRepostData } from '../services/repostChain';
+import { applyReaction, sendReaction, ReactionState } from '../services/reactions';
 import PostCard from './PostCard';
+import PendingPostCard from './PendingPostCard';
 import { screenWidth } from '../constants/layout';
 
+// How close to the top (in points) still counts as "at the top" of the feed
+const AT_TOP_THRESHOLD = 40;
+
+export interface FeedHandle {
+  showPendingPosts: () => void;
+}
+
 interface Props {
   newPost?: Post | null;
   onNewPostDisplayed?: () => void;
+  onPendingPostsChange?: (count: number) => void;
   onScroll?: any;
   contentInsetAdjustmentBehavior?: 'automatic' | 'scrollableAxes' | 'never' | 'always';
   scrollIndicatorInsets?: { top?: number; left?: number; bottom?: number; right?: number };
   contentInset?: { top?: number; left?: number; bottom?: number; right?: number };
 }
 
-export default function Feed({ 
+const Feed = forwardRef<FeedHandle, Props>(function Feed({ 
   newPost, 
   onNewPostDisplayed, 
+  onPendingPostsChange,
   onScroll,
   contentInsetAdjustmentBehavior,
   scrollIndicatorInsets,
   contentInset 
-}: Props) {
+}, ref) {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const [posts, setPosts] = useState<Post[]>([]);
+  // Realtime posts held back while the user is scrolled away from the top
+  const [pendingPosts, setPendingPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [nextUrl, setNextUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // API unreachable - we're showing whatever was cached on disk
+  const [isOffline, setIsOffline] = useState(false);
+  // Pages as fetched, mirrored to disk so the next launch renders instantly
+  const pagesRef = useRef<FeedPage[]>([]);
+  const outboxItems = useOutbox();
+  const listRef = useRef<FlatList<Post>>(null);
+  const isAtTopRef = useRef(true);
+  // Latest reaction request per post, so a slow earlier reply can't undo a newer tap
+  const reactionRequestsRef = useRef(new Map<string, number>());
+  const topOffset = -(contentInset?.top || 0);
+
+  // FlatList requires these to be stable for the lifetime of the list
+  const viewabilityConfig = useRef({ itemVisiblePercentThreshold: 50 }).current;
+  const handleViewableItemsChanged = useRef(({ changed }: { changed: ViewToken[] }) => {
+    changed.forEach(token => {
+      const post = token.item as Post;
+      if (token.isViewable) {
+        impressionService.startDwell(post.id);
+      } else {
+        impressionService.endDwell(post.id);
+      }
+    });
+  }).current;
 
   const fetchFeed = useCallback(async (isRefresh = false, cursor?: string) => {
     try {
@@ -51,8 +111,17 @@ export default function Feed({
       const response = await api.get<FeedResponse>(endpoints.getFeed, { params });
       const { results, next } = response.data;
 
+      if (!cursor && results.length > 0) {
+        websocketService.updateResumeCursor(results[0]);
+      }
+
+      pagesRef.current = cursor ? [...pagesRef.current, { results, next }] : [{ results, next }];
+      saveFeedCache(pagesRef.current);
+      setIsOffline(false);
+
       if (isRefresh) {
         setPosts(results);
+        setPendingPosts([]);
       } else {
         setPosts(prev => {
           if (cursor) {
@@ -71,6 +140,12 @@ export default function Feed({
       console.error('Error fetching feed:', error);
       const errorMessage = error.response?.data?.detail || 'Failed to load feed';
       setError(errorMessage);
+
+      // No response at all means the API is unreachable - the banner covers it
+      if (!error.response) {
+        setIsOffline(true);
+        return;
+      }
       
       Toast.show({
         type: 'error',
@@ -115,6 +190,7 @@ export default function Feed({
           if (post) {
             await api.post(endpoints.muteUser(post.author.handle));
             setPosts(prev => prev.filter(p => p.author.handle !== post.author.handle));
+            setPendingPosts(prev => prev.filter(p => p.author.handle !== post.author.handle));
             Toast.show({
               type: 'success',
               text1: 'Muted',
@@ -137,6 +213,39 @@ export default function Feed({
     }
   }, [posts]);
 
+  // Counts change on tap; the server's reply replaces them, a failure takes the tap back
+  const handleReact = useCallback(async (post: Post, reaction: ReactionId | null) => {
+    // The post may be shown, or still waiting in pendingPosts to be merged in
+    const updateReactions = (update: (p: Post) => ReactionState) => {
+      const applyUpdate = (list: Post[]) => list.map(p => (p.id === post.id ? { ...p, ...update(p) } : p));
+      setPosts(applyUpdate);
+      setPendingPosts(applyUpdate);
+    };
+    const previous = post.my_reaction ?? null;
+    const request = (reactionRequestsRef.current.get(post.id) || 0) + 1;
+    reactionRequestsRef.current.set(post.id, request);
+    updateReactions(p => applyReaction(p, reaction));
+
+    try {
+      const result = await sendReaction(post.id, reaction);
+      if (reactionRequestsRef.current.get(post.id) === request) {
+        updateReactions(() => result);
+      }
+    } catch (error: any) {
+      console.error('Error reacting to post:', error);
+      if (reactionRequestsRef.current.get(post.id) !== request) return;
+
+      // Undo only this tap, keeping counts that arrived over the socket meanwhile
+      updateReactions(p => applyReaction(p, previous));
+      Toast.show({
+        type: 'error',
+        text1: 'Reaction not sent',
+        text2: error.response?.data?.error || error.response?.data?.detail || 'Please try again',
+        position: 'bottom',
+      });
+    }
+  }, []);
+
   const handleCopyText = useCallback((text: string) => {
     // This would use Expo Clipboard in a real implementation
     Toast.show({
@@ -161,11 +270,202 @@ export default function Feed({
     }
   }, [newPost, onNewPostDisplayed]);
 
-  // Initial load
+  const mergePendingPosts = useCallback(() => {
+    if (pendingPosts.length === 0) return;
+    setPosts(prev => {
+      const existingIds = new Set(prev.map(p => p.id));
+      return [...pendingPosts.filter(p => !existingIds.has(p.id)), ...prev];
+    });
+    setPendingPosts([]);
+  }, [pendingPosts]);
+
+  useImperativeHandle(ref, () => ({
+    showPendingPosts: () => {
+      mergePendingPosts();
+      listRef.current?.scrollToOffset({ offset: topOffset, animated: true });
+    },
+  }), [mergePendingPosts, topOffset]);
+
+  useEffect(() => {
+    onPendingPostsChange?.(pendingPosts.length);
+  }, [pendingPosts.length, onPendingPostsChange]);
+
+  const handleScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    onScroll?.(event);
+
+    const wasAtTop = isAtTopRef.current;
+    isAtTopRef.current = event.nativeEvent.contentOffset.y <= topOffset + AT_TOP_THRESHOLD;
+
+    // Scrolled back up on their own - fold the buffer in
+    if (!wasAtTop && isAtTopRef.current) {
+      mergePendingPosts();
+    }
+  }, [onScroll, topOffset, mergePendingPosts]);
+
+  // Realtime feed updates over WebSocket
+  useEffect(() => {
+    const handleConnected = () => {
+      websocketService.joinFeed();
+    };
+
+    const handleRealtimePost = (message: NewPostMessage) => {
+      const incoming = message.post;
+      if (isAtTopRef.current) {
+        setPosts(prev => {
+          // Same dedupe as the newPost effect - our own posts arrive both ways
+          if (prev.some(p => p.id === incoming.id)) {
+            return prev;
+          }
+          return [incoming, ...prev];
+        });
+      } else {
+        setPendingPosts(prev =>
+          prev.some(p => p.id === incoming.id) ? prev : [incoming, ...prev]
+        );
+      }
+    };
+
+    // Posts missed while the socket was down, replayed after a resume
+    const handleBackfill = (message: BackfillMessage) => {
+      [...message.posts].reverse().forEach(post => {
+        handleRealtimePost({ type: 'new_post', post });
+      });
+    };
+
+    const handlePostUpdated = (message: PostUpdatedMessage) => {
+      const applyChanges = (list: Post[]) => list.map(p =>
+        p.id === message.post_id ? { ...p, ...message.changes } : p
+      );
+      setPosts(applyChanges);
+      setPendingPosts(applyChanges);
+    };
+
+    const handlePostRemoved = (message: PostRemovedMessage) => {
+      setPosts(prev => prev.filter(p => p.id !== message.post_id));
+      setPendingPosts(prev => prev.filter(p => p.id !== message.post_id));
+    };
+
+    // Everyone's counts; the viewer's own reaction stays as the API last reported it
+    const handleReactionsUpdated = (message: ReactionsUpdatedMessage) => {
+      const applyCounts = (list: Post[]) => list.map(p =>
+        p.id === message.post_id ? { ...p, reaction_counts: message.reaction_counts } : p
+      );
+      setPosts(applyCounts);
+      setPendingPosts(applyCounts);
+    };
+
+    const handleUserBanned = (message: UserBannedMessage) => {
+      const removedIds = new Set(message.post_ids);
+      const removeBanned = (list: Post[]) => list.filter(p =>
+        !removedIds.has(p.id) && p.author.handle !== message.user_handle
+      );
+      setPosts(removeBanned);
+      setPendingPosts(removeBanned);
+    };
+
+    websocketService.on('connected', handleConnected);
+    websocketService.on('new_post', handleRealtimePost);
+    websocketService.on('backfill', handleBackfill);
+    websocketService.on('post_updated', handlePostUpdated);
+    websocketService.on('post_removed', handlePostRemoved);
+    websocketService.on('user_banned', handleUserBanned);
+    websocketService.on('reactions_updated', handleReactionsUpdated);
+    websocketService.connect();
+    impressionService.start();
+
+    // Drop the socket while backgrounded, reconnect and catch up on return - through the
+    // socket's resume backfill when it has a cursor, otherwise with a refetch, never both
+    let appState = AppState.currentState;
+    const appStateSubscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (appState.match(/inactive|background/) && nextState === 'active') {
+        websocketService.connect();
+        if (!websocketService.hasResumeCursor()) fetchFeed(true);
+      } else if (nextState === 'background') {
+        impressionService.flush();
+        websocketService.disconnect();
+      }
+      appState = nextState;
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      impressionService.stop();
+      websocketService.off('connected', handleConnected);
+      websocketService.off('new_post', handleRealtimePost);
+      websocketService.off('backfill', handleBackfill);
+      websocketService.off('post_updated', handlePostUpdated);
+      websocketService.off('post_removed', handlePostRemoved);
+      websocketService.off('user_banned', handleUserBanned);
+      websocketService.off('reactions_updated', handleReactionsUpdated);
+      websocketService.disconnect();
+    };
+  }, [fetchFeed]);
+
+  // Queued posts from the composer: retry in the background, swap in the real post once sent
+  useEffect(() => {
+    outboxService.start();
+    const unsubscribe = outboxService.onPosted(post => {
+      setPosts(prev => (prev.some(p => p.id === post.id) ? prev : [post, ...prev]));
+      Toast.show({
+        type: 'success',
+        text1: 'Posted! 🚀',
+        position: 'bottom',
+        visibilityTime: 2000,
+      });
+    });
+    return () => {
+      unsubscribe();
+      outboxService.stop();
+    };
+  }, []);
+
+  const handleDiscardQueuedPost = useCallback((id: string) => {
+    Alert.alert(
+      'Discard Post',
+      'This post hasn\'t been sent yet. Discard it?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => outboxService.discard(id) },
+      ]
+    );
+  }, []);
+
+  // Share loaded posts with screens that open a single post
+  useEffect(() => {
+    cachePosts(posts);
+  }, [posts]);
+
+  // Initial load: render the disk cache straight away, then revalidate in the background
   useEffect(() => {
-    fetchFeed();
+    let cancelled = false;
+
+    loadFeedCache().then(pages => {
+      if (cancelled) return;
+      if (pages.length > 0) {
+        pagesRef.current = pages;
+        setPosts(pages.flatMap(page => page.results));
+        setNextUrl(pages[pages.length - 1].next);
+        setLoading(false);
+      }
+      fetchFeed();
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, [fetchFeed]);
 
+  // Revalidate as soon as the network comes back
+  useEffect(() => {
+    if (!isOffline) return;
+    const unsubscribe = NetInfo.addEventListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        fetchFeed(true);
+      }
+    });
+    return unsubscribe;
+  }, [isOffline, fetchFeed]);
+
   const renderPost = ({ item }: { item: Post }) => {
     console.log('🎨 Rendering post:', {
       id: item.id,
@@ -181,14 +481,24 @@ export default function Feed({
         onMute={() => handlePostAction(item.id, 'mute')}
         onCopyText={() => handleCopyText(item.text_content)}
         onRepost={() => handleRepost(item)}
+        onReact={(reaction) => handleReact(item, reaction)}
       />
     );
   };
 
+  // The server's render is the quote - the composer places and crops it as a layer
   const handleRepost = useCallback((post: Post) => {
-    // This will be implemented to capture screenshot and open composer
-    console.log('Repost functionality will be implemented', post.id);
-  }, []);
+    const repostData = buildRepostData(post);
+    if (!repostData) {
+      Toast.show({
+        type: 'error',
+        text1: 'Can\'t repost that one',
+        text2: 'This post hasn\'t finished rendering yet',
+      });
+      return;
+    }
+    navigation.navigate('PostComposer', { repostData });
+  }, [navigation]);
 
   const renderFooter = () => {
     if (!loadingMore) return null;
@@ -199,12 +509,31 @@ export default function Feed({
     );
   };
 
+  const renderHeader = () => (
+    <>
+      {isOffline && (
+        <View style={styles.offlineBanner}>
+          <Ionicons name="cloud-offline-outline" size={16} color={Colors.background} />
+          <Text style={styles.offlineBannerText}>You're offline - showing saved posts</Text>
+        </View>
+      )}
+      {outboxItems.map(item => (
+        <PendingPostCard
+          key={item.id}
+          item={item}
+          onRetry={() => outboxService.retry(item.id)}
+          onDiscard={() => handleDiscardQueuedPost(item.id)}
+        />
+      ))}
+    </>
+  );
+
   const renderEmpty = () => {
     if (loading) return null;
     
     return (
       <View style={styles.empty}>
-        <Text style={styles.emptyTitle}>No posts yet</Text>
+        <Text style={styles.emptyTitle}>{isOffline ? 'You\'re offline' : 'No posts yet'}</Text>
         <Text style={styles.emptySubtitle}>
           {error ? 'Pull to refresh and try again' : 'Be the first to post something!'}
         </Text>
@@ -237,21 +566,31 @@ export default function Feed({
         }
         onEndReached={handleLoadMore}
         onEndReachedThreshold={0.5}
+        ListHeaderComponent={renderHeader}
         ListFooterComponent={renderFooter}
         ListEmptyComponent={renderEmpty}
         showsVerticalScrollIndicator={false}
         contentContainerStyle={posts.length === 0 ? styles.emptyContainer : { paddingVertical: 0, paddingHorizontal: 0 }}
         ItemSeparatorComponent={null}
         style={{ backgroundColor: Colors.background, margin: 0, padding: 0, flex: 1 }}
-        onScroll={onScroll}
+        ref={listRef}
+        onViewableItemsChanged={handleViewableItemsChanged}
+        viewabilityConfig={viewabilityConfig}
+        onScroll={handleScroll}
         scrollEventThrottle={16}
+        maintainVisibleContentPosition={{
+          minIndexForVisible: 0,
+          autoscrollToTopThreshold: AT_TOP_THRESHOLD,
+        }}
         contentInsetAdjustmentBehavior={contentInsetAdjustmentBehavior}
         scrollIndicatorInsets={scrollIndicatorInsets}
         contentInset={contentInset}
       />
     </View>
   );
-}
+});
+
+export default Feed;
 
 const styles = StyleSheet.create({
   container: {
@@ -273,6 +612,20 @@ const styles = StyleSheet.create({
     marginTop: 16,
     fontSize: 16,
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: Colors.surface,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  offlineBannerText: {
+    color: Colors.background,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   loadingMore: {
     padding: 20,
     alignItems: 'center',
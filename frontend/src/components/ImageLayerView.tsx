@@ -0,0 +1,207 @@
+import React, { useRef } from 'react';
+import { View, Text, Image, StyleSheet } from 'react-native';
+import {
+  PanGestureHandler,
+  PinchGestureHandler,
+  RotationGestureHandler,
+  State,
+} from 'react-native-gesture-handler';
+import { getSticker } from '../constants/stickers';
+import { CanvasPoint, CanvasViewport, toScreenPoint } from '../services/canvasLayout';
+import { ComposerImageLayer, LayerGeometry, RepostGeometry } from '../types';
+
+type GeometryUpdate = Partial<LayerGeometry>;
+
+interface Props {
+  layer: LayerGeometry & { id: string };
+  viewport: CanvasViewport; // Layer geometry is in canvas units
+  enabled: boolean;
+  children: React.ReactNode; // What the layer shows, sized to fill it
+  onGestureStart: (id: string) => void;                            // First movement - taps never get here
+  onLiveChange: (id: string, updates: GeometryUpdate) => void;    // Every gesture frame
+  onDragMove: (id: string, touch: CanvasPoint) => void;           // Finger position on screen while panning
+  onGestureEnd: (id: string, before: GeometryUpdate, after: GeometryUpdate) => void; // Once all fingers lift
+}
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 6;
+
+// The photo or sticker itself, sized to fill its parent - shared with draft thumbnails
+export function ImageLayerContent({ layer, height }: { layer: ComposerImageLayer; height: number }) {
+  if (layer.kind === 'sticker') {
+    return (
+      <Text style={[styles.sticker, { fontSize: height * 0.8, lineHeight: height }]}>
+        {getSticker(layer.stickerId)?.emoji || '❓'}
+      </Text>
+    );
+  }
+  return <Image source={{ uri: layer.uri }} style={styles.photo} resizeMode="cover" />;
+}
+
+// The quoted post's image, cropped to fill its parent
+export function RepostLayerContent({ uri, geometry }: { uri: string; geometry: RepostGeometry }) {
+  const { left, top, right, bottom } = geometry.crop;
+  const visibleWidth = right - left;
+  const visibleHeight = bottom - top;
+
+  return (
+    <View style={[styles.repost, { opacity: geometry.opacity }]}>
+      <Image
+        source={{ uri }}
+        style={{
+          position: 'absolute',
+          width: `${100 / visibleWidth}%`,
+          height: `${100 / visibleHeight}%`,
+          left: `${(-left / visibleWidth) * 100}%`,
+          top: `${(-top / visibleHeight) * 100}%`,
+        }}
+        resizeMode="stretch"
+      />
+    </View>
+  );
+}
+
+// Movable, pinchable, rotatable layer on the composer canvas - photos, stickers and the quoted post
+export default function ImageLayerView({
+  layer,
+  viewport,
+  enabled,
+  children,
+  onGestureStart,
+  onLiveChange,
+  onDragMove,
+  onGestureEnd,
+}: Props) {
+  const panRef = useRef(null);
+  const pinchRef = useRef(null);
+  const rotationRef = useRef(null);
+
+  // Pan, pinch and rotate run together; the gesture is one edit from first finger down to last finger up
+  const activeHandlers = useRef(new Set<string>());
+  const gestureStart = useRef<LayerGeometry | null>(null);
+  const gestureUpdates = useRef<GeometryUpdate>({});
+
+  const applyUpdates = (updates: GeometryUpdate) => {
+    if (Object.keys(gestureUpdates.current).length === 0) onGestureStart(layer.id);
+    gestureUpdates.current = { ...gestureUpdates.current, ...updates };
+    onLiveChange(layer.id, updates);
+  };
+
+  const handleStateChange = (handler: string) => (event: any) => {
+    const { state } = event.nativeEvent;
+    if (state === State.BEGAN) {
+      if (activeHandlers.current.size === 0) {
+        const { x, y, width, height, scale, rotation } = layer;
+        gestureStart.current = { x, y, width, height, scale, rotation };
+        gestureUpdates.current = {};
+      }
+      activeHandlers.current.add(handler);
+    }
+    if (state === State.END || state === State.CANCELLED || state === State.FAILED) {
+      if (!activeHandlers.current.delete(handler) || activeHandlers.current.size > 0) return;
+
+      const start = gestureStart.current;
+      const after = gestureUpdates.current;
+      gestureStart.current = null;
+      gestureUpdates.current = {};
+      if (!start) return;
+
+      const before: GeometryUpdate = {};
+      (Object.keys(after) as (keyof LayerGeometry)[]).forEach(key => {
+        before[key] = start[key];
+      });
+      onGestureEnd(layer.id, before, after);
+    }
+  };
+
+  const handlePan = (event: any) => {
+    const start = gestureStart.current;
+    if (!start || event.nativeEvent.state !== State.ACTIVE) return;
+    const { translationX, translationY, absoluteX, absoluteY } = event.nativeEvent;
+    onDragMove(layer.id, { x: absoluteX, y: absoluteY });
+    applyUpdates({
+      x: start.x + translationX / viewport.scale,
+      y: start.y + translationY / viewport.scale,
+    });
+  };
+
+  const handlePinch = (event: any) => {
+    const start = gestureStart.current;
+    if (!start || event.nativeEvent.state !== State.ACTIVE) return;
+    applyUpdates({ scale: Math.max(MIN_SCALE, Math.min(MAX_SCALE, start.scale * event.nativeEvent.scale)) });
+  };
+
+  const handleRotation = (event: any) => {
+    const start = gestureStart.current;
+    if (!start || event.nativeEvent.state !== State.ACTIVE) return;
+    applyUpdates({ rotation: start.rotation + (event.nativeEvent.rotation * 180) / Math.PI });
+  };
+
+  const center = toScreenPoint(viewport, layer);
+  const width = layer.width * viewport.scale;
+  const height = layer.height * viewport.scale;
+
+  return (
+    <PanGestureHandler
+      ref={panRef}
+      simultaneousHandlers={[pinchRef, rotationRef]}
+      onGestureEvent={handlePan}
+      onHandlerStateChange={handleStateChange('pan')}
+      enabled={enabled}
+    >
+      <View
+        style={[
+          styles.layer,
+          {
+            left: center.x - width / 2,
+            top: center.y - height / 2,
+            width,
+            height,
+            transform: [{ rotate: `${layer.rotation}deg` }, { scale: layer.scale }],
+          },
+        ]}
+      >
+        <PinchGestureHandler
+          ref={pinchRef}
+          simultaneousHandlers={[panRef, rotationRef]}
+          onGestureEvent={handlePinch}
+          onHandlerStateChange={handleStateChange('pinch')}
+          enabled={enabled}
+        >
+          <View style={styles.fill}>
+            <RotationGestureHandler
+              ref={rotationRef}
+              simultaneousHandlers={[panRef, pinchRef]}
+              onGestureEvent={handleRotation}
+              onHandlerStateChange={handleStateChange('rotation')}
+              enabled={enabled}
+            >
+              <View style={styles.fill}>{children}</View>
+            </RotationGestureHandler>
+          </View>
+        </PinchGestureHandler>
+      </View>
+    </PanGestureHandler>
+  );
+}
+
+const styles = StyleSheet.create({
+  layer: {
+    position: 'absolute',
+  },
+  fill: {
+    flex: 1,
+  },
+  photo: {
+    width: '100%',
+    height: '100%',
+  },
+  repost: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  sticker: {
+    textAlign: 'center',
+    includeFontPadding: false,
+  },
+});
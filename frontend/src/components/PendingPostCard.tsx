@@ -0,0 +1,117 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/colors';
+import { OutboxItem } from '../services/outbox';
+
+interface Props {
+  item: OutboxItem;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+// Optimistic feed card for a post still sitting in the outbox
+export default function PendingPostCard({ item, onRetry, onDiscard }: Props) {
+  const { payload, status, lastError } = item;
+
+  const getStatusText = () => {
+    switch (status) {
+      case 'sending':
+        return 'Posting...';
+      case 'failed':
+        return lastError ? `Couldn't post: ${lastError}` : 'Couldn\'t post';
+      default:
+        return 'Waiting to post - will retry automatically';
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.preview, { backgroundColor: payload.background_color }]}>
+        <Text
+          style={[styles.previewText, { color: payload.text_color }]}
+          numberOfLines={4}
+        >
+          {payload.text_content}
+        </Text>
+      </View>
+
+      <View style={styles.statusRow}>
+        {status === 'sending' ? (
+          <ActivityIndicator size="small" color={Colors.accent} />
+        ) : (
+          <Ionicons
+            name={status === 'failed' ? 'alert-circle-outline' : 'time-outline'}
+            size={18}
+            color={status === 'failed' ? Colors.error : Colors.secondary}
+          />
+        )}
+        <Text
+          style={[styles.statusText, status === 'failed' && { color: Colors.error }]}
+          numberOfLines={2}
+        >
+          {getStatusText()}
+        </Text>
+
+        {status !== 'sending' && (
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.actionButton} onPress={onRetry}>
+              <Ionicons name="refresh" size={18} color={Colors.accent} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={onDiscard}>
+              <Ionicons name="trash-outline" size={18} color={Colors.secondary} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.background,
+    width: '100%',
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  preview: {
+    width: '100%',
+    aspectRatio: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    opacity: 0.6,
+  },
+  previewText: {
+    fontSize: 20,
+    fontWeight: '900',
+    textAlign: 'center',
+    textTransform: 'uppercase',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  statusText: {
+    flex: 1,
+    color: Colors.secondary,
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  actionButton: {
+    padding: 6,
+  },
+});
@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Modal,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { Colors } from '../constants/colors';
+import { Reactions } from '../constants/reactions';
+import { Post, ReactionId } from '../types';
+
+interface Props {
+  post: Post;
+  visible: boolean;
+  onClose: () => void;
+  onReport: (reason: string, description: string) => void;
+  onMute: () => void;
+  onCopyText: () => void;
+  onRepost: () => void;
+  myReaction?: ReactionId | null;
+  onReact?: (reaction: ReactionId) => void; // Shows the reaction palette above the actions
+  onSaveImage?: () => void; // Image actions need a captured view, so only hosts that have one pass these
+  onShare?: () => void;
+}
+
+const REPORT_REASONS = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'inappropriate', label: 'Inappropriate Content' },
+  { value: 'fake', label: 'Fake/Misleading' },
+  { value: 'other', label: 'Other' },
+];
+
+export default function PostActionSheet({
+  post,
+  visible,
+  onClose,
+  onReport,
+  onMute,
+  onCopyText,
+  onRepost,
+  myReaction,
+  onReact,
+  onSaveImage,
+  onShare,
+}: Props) {
+  const [showReportModal, setShowReportModal] = useState(false);
+
+  const handleCopyText = async () => {
+    try {
+      await Clipboard.setStringAsync(post.text_content);
+      onCopyText();
+    } catch (error) {
+      console.error('Error copying text:', error);
+    }
+    onClose();
+  };
+
+  const handleReport = (reason: string) => {
+    setShowReportModal(false);
+    onClose();
+    onReport(reason, '');
+  };
+
+  const handleMute = () => {
+    Alert.alert(
+      'Mute User',
+      `Are you sure you want to mute @${post.author.handle}? You won't see their posts anymore.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mute',
+          style: 'destructive',
+          onPress: () => {
+            onMute();
+            onClose();
+          }
+        },
+      ]
+    );
+  };
+
+  const renderActionSheet = () => (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.modalOverlay}>
+          <TouchableWithoutFeedback>
+            <View style={styles.actionSheet}>
+              {onReact && (
+                <View style={styles.reactionPalette}>
+                  {Reactions.map(reaction => (
+                    <TouchableOpacity
+                      key={reaction.id}
+                      style={[styles.reactionOption, myReaction === reaction.id && styles.reactionOptionActive]}
+                      onPress={() => {
+                        onClose();
+                        onReact(reaction.id);
+                      }}
+                      accessibilityLabel={reaction.name}
+                    >
+                      <Text style={styles.reactionEmoji}>{reaction.emoji}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              <TouchableOpacity style={styles.actionItem} onPress={handleCopyText}>
+                <Ionicons name="copy-outline" size={20} color={Colors.primary} />
+                <Text style={styles.actionText}>Copy Text</Text>
+              </TouchableOpacity>
+
+              {onSaveImage && (
+                <TouchableOpacity
+                  style={styles.actionItem}
+                  onPress={() => {
+                    onClose();
+                    onSaveImage();
+                  }}
+                >
+                  <Ionicons name="download-outline" size={20} color={Colors.primary} />
+                  <Text style={styles.actionText}>Save Image</Text>
+                </TouchableOpacity>
+              )}
+
+              {onShare && (
+                <TouchableOpacity
+                  style={styles.actionItem}
+                  onPress={() => {
+                    onClose();
+                    onShare();
+                  }}
+                >
+                  <Ionicons name="share-outline" size={20} color={Colors.primary} />
+                  <Text style={styles.actionText}>Share</Text>
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                style={styles.actionItem}
+                onPress={() => {
+                  onClose();
+                  onRepost();
+                }}
+              >
+                <Ionicons name="repeat-outline" size={20} color={Colors.accent} />
+                <Text style={[styles.actionText, { color: Colors.accent }]}>Repost</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.actionItem}
+                onPress={() => {
+                  onClose();
+                  setShowReportModal(true);
+                }}
+              >
+                <Ionicons name="flag-outline" size={20} color={Colors.error} />
+                <Text style={[styles.actionText, { color: Colors.error }]}>Report</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.actionItem} onPress={handleMute}>
+                <Ionicons name="volume-mute-outline" size={20} color={Colors.warning} />
+                <Text style={[styles.actionText, { color: Colors.warning }]}>
+                  Mute @{post.author.handle}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.actionItem, styles.cancelAction]}
+                onPress={onClose}
+              >
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+
+  const renderReportModal = () => (
+    <Modal
+      visible={showReportModal}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setShowReportModal(false)}
+    >
+      <TouchableWithoutFeedback onPress={() => setShowReportModal(false)}>
+        <View style={styles.modalOverlay}>
+          <TouchableWithoutFeedback>
+            <View style={styles.reportModal}>
+              <Text style={styles.modalTitle}>Report Post</Text>
+              <Text style={styles.modalSubtitle}>
+                Why are you reporting this post?
+              </Text>
+
+              {REPORT_REASONS.map((reason) => (
+                <TouchableOpacity
+                  key={reason.value}
+                  style={styles.reportReason}
+                  onPress={() => handleReport(reason.value)}
+                >
+                  <Text style={styles.reportReasonText}>{reason.label}</Text>
+                </TouchableOpacity>
+              ))}
+
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowReportModal(false)}
+              >
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+
+  return (
+    <>
+      {renderActionSheet()}
+      {renderReportModal()}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  actionSheet: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 12,
+  },
+  reactionPalette: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.background,
+  },
+  reactionOption: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  reactionOptionActive: {
+    borderColor: Colors.accent,
+  },
+  reactionEmoji: {
+    fontSize: 28,
+  },
+  actionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  actionText: {
+    color: Colors.primary,
+    fontSize: 16,
+  },
+  cancelAction: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.background,
+    marginTop: 8,
+  },
+  cancelText: {
+    color: Colors.secondary,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  reportModal: {
+    backgroundColor: Colors.surface,
+    marginHorizontal: 32,
+    borderRadius: 16,
+    padding: 24,
+    alignSelf: 'center',
+    maxWidth: 300,
+    width: '100%',
+  },
+  modalTitle: {
+    color: Colors.primary,
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  modalSubtitle: {
+    color: Colors.secondary,
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  reportReason: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.background,
+  },
+  reportReasonText: {
+    color: Colors.primary,
+    fontSize: 16,
+  },
+  cancelButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+  },
+});
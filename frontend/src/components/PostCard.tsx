@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -6,46 +6,76 @@ import {
   Image,
   StyleSheet,
   Dimensions,
-  Alert,
-  Modal,
-  TouchableWithoutFeedback,
+  Share,
+  Animated,
 } from 'react-native';
-import { Ionicons } from '@expo/vector-icons';
-import * as Clipboard from 'expo-clipboard';
 import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import * as Haptics from 'expo-haptics';
 import { Colors } from '../constants/colors';
-import { Post } from '../types';
+import { DEFAULT_REACTION, getReaction, Reactions } from '../constants/reactions';
+import { Post, ReactionId, RootStackParamList } from '../types';
+import { usePreferences } from '../services/preferences';
+import { useCachedImageUri } from '../services/imageCache';
+import { CANVAS_WIDTH, getDisplayCrop } from '../services/canvasLayout';
+import { captureImage, saveToCameraRoll, shareImage } from '../services/postCapture';
+import { getPostShareUrl } from '../config/linking';
+import { cachePosts } from '../services/postCache';
+import PostActionSheet from './PostActionSheet';
 
 const { width: screenWidth } = Dimensions.get('window');
 
+// How often relative timestamps ("5m") re-render
+const TIME_AGO_REFRESH_MS = 30 * 1000;
+
+// A second tap within this window makes a double-tap, so single taps wait it out
+const DOUBLE_TAP_MS = 250;
+
 interface Props {
   post: Post;
   onReport: (reason: string, description: string) => void;
   onMute: () => void;
   onCopyText: () => void;
   onRepost: () => void;
+  onReact: (reaction: ReactionId | null) => void; // Null takes the viewer's reaction back
 }
 
-const REPORT_REASONS = [
-  { value: 'spam', label: 'Spam' },
-  { value: 'harassment', label: 'Harassment' },
-  { value: 'inappropriate', label: 'Inappropriate Content' },
-  { value: 'fake', label: 'Fake/Misleading' },
-  { value: 'other', label: 'Other' },
-];
-
-export default function PostCard({ post, onReport, onMute, onCopyText, onRepost }: Props) {
-  const navigation = useNavigation();
+export default function PostCard({ post, onReport, onMute, onCopyText, onRepost, onReact }: Props) {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const postRef = useRef<View>(null);
+  const postSize = useRef({ width: screenWidth, height: screenWidth });
   const [showActions, setShowActions] = useState(false);
-  const [showReportModal, setShowReportModal] = useState(false);
   const [imageAspectRatio, setImageAspectRatio] = useState<number>(1);
   const [imageLoaded, setImageLoaded] = useState<boolean>(false);
+  const [preferences] = usePreferences();
+  const imageUri = useCachedImageUri(post.rendered_image_url);
+  const lastTapAt = useRef(0);
+  const singleTapTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const burst = useRef(new Animated.Value(0)).current;
+  const [burstEmoji, setBurstEmoji] = useState<string | null>(null);
+
+  // Posts with a layout crop to the same canvas band on every screen; others size to the image
+  const crop = getDisplayCrop(post);
+  const cropScale = crop ? screenWidth / crop.canvasWidth : 1;
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the relative time fresh while the strip is visible
+  useEffect(() => {
+    if (!preferences.showPostDetails) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TIME_AGO_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [preferences.showPostDetails]);
+
+  useEffect(() => () => {
+    if (singleTapTimer.current) clearTimeout(singleTapTimer.current);
+  }, []);
 
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString);
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
+    const diff = now - date.getTime();
     
     const minutes = Math.floor(diff / (1000 * 60));
     const hours = Math.floor(diff / (1000 * 60 * 60));
@@ -57,216 +87,233 @@ export default function PostCard({ post, onReport, onMute, onCopyText, onRepost
     return `${days}d`;
   };
 
+  const formatCount = (count: number) => {
+    if (count >= 1000000) return `${(count / 1000000).toFixed(1).replace(/\.0$/, '')}M`;
+    if (count >= 1000) return `${(count / 1000).toFixed(1).replace(/\.0$/, '')}K`;
+    return `${count}`;
+  };
+
   const handleLongPress = () => {
     setShowActions(true);
   };
 
-  const handleCopyText = async () => {
-    try {
-      await Clipboard.setStringAsync(post.text_content);
-      onCopyText();
-    } catch (error) {
-      console.error('Error copying text:', error);
+  const playBurst = (reaction: ReactionId) => {
+    setBurstEmoji(getReaction(reaction)?.emoji || null);
+    burst.setValue(0);
+    Animated.sequence([
+      Animated.spring(burst, { toValue: 1, friction: 4, useNativeDriver: true }),
+      Animated.timing(burst, { toValue: 0, duration: 200, delay: 300, useNativeDriver: true }),
+    ]).start();
+  };
+
+  // Picking the reaction you already have takes it back
+  const toggleReaction = (reaction: ReactionId) => {
+    Haptics.selectionAsync();
+    if (post.my_reaction === reaction) {
+      onReact(null);
+      return;
     }
-    setShowActions(false);
+    playBurst(reaction);
+    onReact(reaction);
   };
 
-  const handleReport = (reason: string) => {
-    setShowReportModal(false);
-    setShowActions(false);
-    onReport(reason, '');
+  // Like a like: a double-tap only ever adds, and replays the burst if you've already reacted
+  const handleDoubleTap = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (post.my_reaction) {
+      playBurst(post.my_reaction);
+      return;
+    }
+    playBurst(DEFAULT_REACTION);
+    onReact(DEFAULT_REACTION);
   };
 
-  const handleRepost = async () => {
+  const handleTap = (onSingleTap: () => void) => () => {
+    const tappedAt = Date.now();
+    if (singleTapTimer.current && tappedAt - lastTapAt.current < DOUBLE_TAP_MS) {
+      clearTimeout(singleTapTimer.current);
+      singleTapTimer.current = null;
+      handleDoubleTap();
+      return;
+    }
+    lastTapAt.current = tappedAt;
+    singleTapTimer.current = setTimeout(() => {
+      singleTapTimer.current = null;
+      onSingleTap();
+    }, DOUBLE_TAP_MS);
+  };
+
+  // What the feed shows, exported at the canvas width whatever the screen
+  const capturePost = () => {
+    const { width, height } = postSize.current;
+    return captureImage(postRef, CANVAS_WIDTH, Math.round((CANVAS_WIDTH * height) / width));
+  };
+
+  const handleSaveImage = async () => {
     try {
-      setShowActions(false);
-      
-      // Use the existing rendered image URL instead of capturing
-      const imageUri = post.rendered_image_url;
-      
-      if (!imageUri) {
-        Alert.alert('Error', 'This post cannot be reposted (no image available)');
+      const uri = await capturePost();
+      if (!(await saveToCameraRoll(uri))) {
+        Toast.show({
+          type: 'error',
+          text1: 'Photo access needed',
+          text2: 'Allow TBD to save photos in Settings',
+          position: 'bottom',
+        });
         return;
       }
-      
-      console.log('🖼️ Using post image URI:', imageUri);
-      
-      // Navigate to PostComposer with repost data
-      (navigation as any).navigate('PostComposer', {
-        repostData: {
-          originalPost: post,
-          screenshotUri: imageUri,
-        },
-      });
-      
+      Toast.show({ type: 'success', text1: 'Saved to camera roll', position: 'bottom', visibilityTime: 2000 });
+    } catch (error) {
+      console.error('Error saving post image:', error);
+      Toast.show({ type: 'error', text1: 'Could not save image', position: 'bottom' });
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      const uri = await capturePost();
+      if (await shareImage(uri, `@${post.author.handle} on TBD`)) return;
+      // No file sharing here - the link is the next best thing
+      await Share.share({ message: getPostShareUrl(post.id) });
     } catch (error) {
-      console.error('Error setting up repost:', error);
-      Alert.alert('Error', 'Failed to set up repost');
+      console.error('Error sharing post:', error);
+      Toast.show({ type: 'error', text1: 'Could not share post', position: 'bottom' });
     }
   };
 
-  const handleMute = () => {
-    Alert.alert(
-      'Mute User',
-      `Are you sure you want to mute @${post.author.handle}? You won't see their posts anymore.`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { 
-          text: 'Mute', 
-          style: 'destructive',
-          onPress: () => {
-            onMute();
-            setShowActions(false);
-          }
-        },
-      ]
+  const handlePress = () => {
+    navigation.navigate('PostDetail', { postId: post.id });
+  };
+
+  // Tapping the quote in a repost opens the post it quotes
+  const handleOpenOriginal = () => {
+    if (!post.original_post) return;
+    cachePosts([post.original_post]);
+    navigation.navigate('PostDetail', { postId: post.original_post.id });
+  };
+
+  // Laid out like the quote itself, so the tap target follows its rotation and scale
+  const renderQuoteRegion = () => {
+    const geometry = post.repost_geometry;
+    if (!crop || !geometry || !post.original_post) return null;
+
+    return (
+      <TouchableOpacity
+        accessibilityLabel={`Open post by @${post.original_post.author.handle}`}
+        style={[
+          styles.quoteRegion,
+          {
+            left: (geometry.x - geometry.width / 2) * cropScale,
+            top: (geometry.y - geometry.height / 2 - crop.top) * cropScale,
+            width: geometry.width * cropScale,
+            height: geometry.height * cropScale,
+            transform: [{ rotate: `${geometry.rotation}deg` }, { scale: geometry.scale }],
+          },
+        ]}
+        onPress={handleTap(handleOpenOriginal)}
+        onLongPress={handleLongPress}
+        delayLongPress={500}
+        activeOpacity={0.6}
+      />
     );
   };
 
-  const renderActionSheet = () => (
-    <Modal
-      visible={showActions}
-      transparent
-      animationType="fade"
-      onRequestClose={() => setShowActions(false)}
-    >
-      <TouchableWithoutFeedback onPress={() => setShowActions(false)}>
-        <View style={styles.modalOverlay}>
-          <TouchableWithoutFeedback>
-            <View style={styles.actionSheet}>
-              <TouchableOpacity style={styles.actionItem} onPress={handleCopyText}>
-                <Ionicons name="copy-outline" size={20} color={Colors.primary} />
-                <Text style={styles.actionText}>Copy Text</Text>
-              </TouchableOpacity>
-              
-              <TouchableOpacity 
-                style={styles.actionItem} 
-                onPress={handleRepost}
-              >
-                <Ionicons name="repeat-outline" size={20} color={Colors.accent} />
-                <Text style={[styles.actionText, { color: Colors.accent }]}>Repost</Text>
-              </TouchableOpacity>
-              
-              <TouchableOpacity 
-                style={styles.actionItem} 
-                onPress={() => {
-                  setShowActions(false);
-                  setShowReportModal(true);
-                }}
-              >
-                <Ionicons name="flag-outline" size={20} color={Colors.error} />
-                <Text style={[styles.actionText, { color: Colors.error }]}>Report</Text>
-              </TouchableOpacity>
-              
-              <TouchableOpacity style={styles.actionItem} onPress={handleMute}>
-                <Ionicons name="volume-mute-outline" size={20} color={Colors.warning} />
-                <Text style={[styles.actionText, { color: Colors.warning }]}>
-                  Mute @{post.author.handle}
-                </Text>
-              </TouchableOpacity>
-              
-              <TouchableOpacity 
-                style={[styles.actionItem, styles.cancelAction]} 
-                onPress={() => setShowActions(false)}
-              >
-                <Text style={styles.cancelText}>Cancel</Text>
-              </TouchableOpacity>
-            </View>
-          </TouchableWithoutFeedback>
-        </View>
-      </TouchableWithoutFeedback>
-    </Modal>
-  );
+  // Kept outside the captured view so saved and shared images stay clean
+  const renderAttribution = () => {
+    if (!post.original_post) return null;
 
-  const renderReportModal = () => (
-    <Modal
-      visible={showReportModal}
-      transparent
-      animationType="fade"
-      onRequestClose={() => setShowReportModal(false)}
-    >
-      <TouchableWithoutFeedback onPress={() => setShowReportModal(false)}>
-        <View style={styles.modalOverlay}>
-          <TouchableWithoutFeedback>
-            <View style={styles.reportModal}>
-              <Text style={styles.modalTitle}>Report Post</Text>
-              <Text style={styles.modalSubtitle}>
-                Why are you reporting this post?
-              </Text>
-              
-              {REPORT_REASONS.map((reason) => (
-                <TouchableOpacity
-                  key={reason.value}
-                  style={styles.reportReason}
-                  onPress={() => handleReport(reason.value)}
-                >
-                  <Text style={styles.reportReasonText}>{reason.label}</Text>
-                </TouchableOpacity>
-              ))}
-              
-              <TouchableOpacity 
-                style={styles.cancelButton}
-                onPress={() => setShowReportModal(false)}
-              >
-                <Text style={styles.cancelText}>Cancel</Text>
-              </TouchableOpacity>
-            </View>
-          </TouchableWithoutFeedback>
-        </View>
-      </TouchableWithoutFeedback>
-    </Modal>
+    return (
+      <TouchableOpacity
+        style={styles.attribution}
+        onPress={handleOpenOriginal}
+        accessibilityLabel={`Reposting @${post.original_post.author.handle}, open original`}
+      >
+        <Ionicons name="repeat" size={14} color={Colors.secondary} />
+        <Text style={styles.attributionText} numberOfLines={1}>
+          reposting <Text style={styles.attributionHandle}>@{post.original_post.author.handle}</Text>
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // Only reactions someone has used, in palette order
+  const renderReactions = () => {
+    const used = Reactions.filter(reaction => (post.reaction_counts?.[reaction.id] || 0) > 0);
+    if (used.length === 0) return null;
+
+    return (
+      <View style={styles.reactions}>
+        {used.map(reaction => (
+          <TouchableOpacity
+            key={reaction.id}
+            style={[styles.reactionChip, post.my_reaction === reaction.id && styles.reactionChipActive]}
+            onPress={() => toggleReaction(reaction.id)}
+            accessibilityLabel={`${reaction.name} reaction`}
+          >
+            <Text style={styles.reactionEmoji}>{reaction.emoji}</Text>
+            <Text style={styles.reactionCount}>{formatCount(post.reaction_counts?.[reaction.id] || 0)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <View style={styles.authorInfo}>
+        <View style={[styles.avatar, { backgroundColor: post.author.avatar_color }]} />
+        <Text style={styles.handle}>@{post.author.handle}</Text>
+      </View>
+      <View style={styles.metadata}>
+        <Text style={styles.timeAgo}>{formatTimeAgo(post.created_at)}</Text>
+        <Text style={styles.viewCount}>
+          {formatCount(post.view_count || 0)} {post.view_count === 1 ? 'view' : 'views'}
+        </Text>
+      </View>
+    </View>
   );
 
   return (
     <View style={styles.container}>
-      <View ref={postRef} style={styles.captureContainer}>
+      {/* Author strip - hidden for the pure edge-to-edge look */}
+      {preferences.showPostDetails && renderHeader()}
+
+      <View
+        ref={postRef}
+        collapsable={false}
+        style={styles.captureContainer}
+        onLayout={(event) => {
+          postSize.current = event.nativeEvent.layout;
+        }}
+      >
         {/* Post Content - Full Bleed */}
         <TouchableOpacity 
           style={styles.postContent}
+          onPress={handleTap(handlePress)}
           onLongPress={handleLongPress}
           delayLongPress={500}
           activeOpacity={0.95}
         >
           {post.rendered_image_url ? (
             <View
-              style={(() => {
-                const canvasWidth = post.image_width && post.image_width > 0 ? post.image_width : null;
-                const canvasHeight = post.image_height && post.image_height > 0 ? post.image_height : null;
-                const topY = typeof post.top_y === 'number' ? post.top_y : null;
-                const bottomY = typeof post.bottom_y === 'number' ? post.bottom_y : null;
-                if (canvasWidth && canvasHeight && topY !== null && bottomY !== null && bottomY > topY) {
-                  const scale = screenWidth / canvasWidth;
-                  const croppedHeight = Math.max(bottomY - topY, 1);
-                  return [styles.postImageWrapper, { height: croppedHeight * scale }];
-                }
-                return [styles.postImageWrapper, { aspectRatio: imageAspectRatio, maxHeight: screenWidth * 1.5 }];
-              })()}
+              style={
+                crop
+                  ? [styles.postImageWrapper, { height: Math.max(crop.bottom - crop.top, 1) * cropScale }]
+                  : [styles.postImageWrapper, { aspectRatio: imageAspectRatio, maxHeight: screenWidth * 1.5 }]
+              }
             >
               <Image 
-                source={{ uri: post.rendered_image_url }}
-                style={(() => {
-                  const canvasWidth = post.image_width && post.image_width > 0 ? post.image_width : null;
-                  const canvasHeight = post.image_height && post.image_height > 0 ? post.image_height : null;
-                  const topY = typeof post.top_y === 'number' ? post.top_y : null;
-                  const bottomY = typeof post.bottom_y === 'number' ? post.bottom_y : null;
-                  if (canvasWidth && canvasHeight && topY !== null && bottomY !== null && bottomY > topY) {
-                    const scale = screenWidth / canvasWidth;
-                    return [
-                      styles.postImage,
-                      {
-                        height: canvasHeight * scale,
-                        transform: [{ translateY: -topY * scale }],
-                      },
-                    ];
-                  }
-                  return [
-                    styles.postImage,
-                    {
-                      aspectRatio: imageAspectRatio,
-                      maxHeight: screenWidth * 1.5,
-                    }
-                  ];
-                })()}
+                source={{ uri: imageUri }}
+                style={
+                  crop
+                    ? [
+                        styles.postImage,
+                        {
+                          height: crop.canvasHeight * cropScale,
+                          transform: [{ translateY: -crop.top * cropScale }],
+                        },
+                      ]
+                    : [styles.postImage, { aspectRatio: imageAspectRatio, maxHeight: screenWidth * 1.5 }]
+                }
                 resizeMode="cover"
                 onLoad={(event) => {
                   const { width, height } = event.nativeEvent.source;
@@ -279,6 +326,7 @@ export default function PostCard({ post, onReport, onMute, onCopyText, onRepost
                   console.log('Failed image URL:', post.rendered_image_url);
                 }}
               />
+              {renderQuoteRegion()}
             </View>
           ) : (
             <View style={styles.placeholderImage}>
@@ -287,11 +335,33 @@ export default function PostCard({ post, onReport, onMute, onCopyText, onRepost
               </Text>
             </View>
           )}
+
+          {burstEmoji && (
+            <View style={styles.burstContainer} pointerEvents="none">
+              <Animated.Text style={[styles.burst, { opacity: burst, transform: [{ scale: burst }] }]}>
+                {burstEmoji}
+              </Animated.Text>
+            </View>
+          )}
         </TouchableOpacity>
       </View>
 
-      {renderActionSheet()}
-      {renderReportModal()}
+      {renderReactions()}
+      {renderAttribution()}
+
+      <PostActionSheet
+        post={post}
+        visible={showActions}
+        onClose={() => setShowActions(false)}
+        onReport={onReport}
+        onMute={onMute}
+        onCopyText={onCopyText}
+        onRepost={onRepost}
+        myReaction={post.my_reaction}
+        onReact={toggleReaction}
+        onSaveImage={handleSaveImage}
+        onShare={handleShare}
+      />
     </View>
   );
 }
@@ -354,93 +424,81 @@ const styles = StyleSheet.create({
     width: '100%',
     backgroundColor: Colors.surface,
   },
-  placeholderImage: {
-    width: '100%',
-    aspectRatio: 2/3,
-    backgroundColor: Colors.surface,
+  quoteRegion: {
+    position: 'absolute',
+  },
+  burstContainer: {
+    ...StyleSheet.absoluteFillObject,
     justifyContent: 'center',
     alignItems: 'center',
-    padding: 20,
   },
-  placeholderText: {
-    color: Colors.primary,
-    textAlign: 'center',
-    fontSize: 16,
+  burst: {
+    fontSize: 96,
   },
-  textContent: {
+  reactions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
     paddingHorizontal: 16,
-    paddingVertical: 8,
-  },
-  postText: {
-    color: Colors.secondary,
-    fontSize: 14,
-    lineHeight: 20,
-  },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.7)',
-    justifyContent: 'flex-end',
+    paddingTop: 8,
   },
-  actionSheet: {
-    backgroundColor: Colors.surface,
-    borderTopLeftRadius: 16,
-    borderTopRightRadius: 16,
-    paddingTop: 12,
-  },
-  actionItem: {
+  reactionChip: {
     flexDirection: 'row',
     alignItems: 'center',
-    paddingHorizontal: 24,
-    paddingVertical: 16,
-    gap: 12,
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
   },
-  actionText: {
+  reactionChipActive: {
+    borderColor: Colors.accent,
+  },
+  reactionEmoji: {
+    fontSize: 14,
+  },
+  reactionCount: {
     color: Colors.primary,
-    fontSize: 16,
+    fontSize: 12,
+    fontWeight: '600',
   },
-  cancelAction: {
-    borderTopWidth: 1,
-    borderTopColor: Colors.background,
-    marginTop: 8,
+  attribution: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
   },
-  cancelText: {
+  attributionText: {
+    flex: 1,
     color: Colors.secondary,
-    fontSize: 16,
-    textAlign: 'center',
+    fontSize: 12,
   },
-  reportModal: {
-    backgroundColor: Colors.surface,
-    marginHorizontal: 32,
-    borderRadius: 16,
-    padding: 24,
-    alignSelf: 'center',
-    maxWidth: 300,
+  attributionHandle: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  placeholderImage: {
     width: '100%',
+    aspectRatio: 2/3,
+    backgroundColor: Colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
   },
-  modalTitle: {
+  placeholderText: {
     color: Colors.primary,
-    fontSize: 18,
-    fontWeight: 'bold',
     textAlign: 'center',
-    marginBottom: 8,
+    fontSize: 16,
   },
-  modalSubtitle: {
+  textContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  postText: {
     color: Colors.secondary,
     fontSize: 14,
-    textAlign: 'center',
-    marginBottom: 24,
-  },
-  reportReason: {
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-    borderBottomColor: Colors.background,
-  },
-  reportReasonText: {
-    color: Colors.primary,
-    fontSize: 16,
-  },
-  cancelButton: {
-    marginTop: 16,
-    paddingVertical: 12,
+    lineHeight: 20,
   },
 });
@@ -1,4 +1,4 @@
-import React, { useMemo, useState, useEffect, useRef, useCallback } from 'react';
+import React, { createRef, useMemo, useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -18,10 +18,17 @@ import {
   Platform,
 } from 'react-native';
 import { Image as ExpoImage } from 'expo-image';
-import { LinearGradient } from 'expo-linear-gradient';
-import { Ionicons } from '@expo/vector-icons';
-import { PanGestureHandler, PinchGestureHandler, State } from 'react-native-gesture-handler';
-import * as FileSystem from 'expo-file-system';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import {
+  PanGestureHandler,
+  PinchGestureHandler,
+  RotationGestureHandler,
+  State,
+} from 'react-native-gesture-handler';
+import { File, Paths } from 'expo-file-system';
+import * as ImagePicker from 'expo-image-picker';
+import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
 import AnimatedReanimated, {
   useAnimatedStyle,
   useSharedValue,
@@ -29,33 +36,151 @@ import AnimatedReanimated, {
   withTiming,
 } from 'react-native-reanimated';
 import Toast from 'react-native-toast-message';
-import { Colors, FontChoices } from '../constants/colors';
-import { PostCreate, RepostData } from '../types';
-import { api, endpoints } from '../config/api';
+import { Colors } from '../constants/colors';
+import { FontIds, FontRegistry, getFont } from '../constants/fonts';
+import { StickerPack } from '../constants/stickers';
+import {
+  BackgroundColors,
+  GradientPresets,
+  MAX_GRADIENT_STOPS,
+  MIN_GRADIENT_STOPS,
+  PatternKinds,
+} from '../constants/backgrounds';
+import {
+  BackgroundPattern,
+  BrushTool,
+  CanvasBackground,
+  ComposerImageLayer,
+  ComposerTextElement,
+  DrawingStroke,
+  LayerGeometry,
+  PostCreate,
+  RepostData,
+  RepostGeometry,
+  TextEffects,
+} from '../types';
+import { DRAWING_LAYER_Z_INDEX, PostAttachment, serializeImageLayers, submitPost } from '../services/postUpload';
+import { captureCanvas } from '../services/postCapture';
+import { outboxService, createIdempotencyKey, isRetryableError } from '../services/outbox';
+import { draftService, createDraftId, isDraftEmpty, Draft, DraftContent } from '../services/drafts';
+import {
+  useComposerHistory,
+  applyElementCommand,
+  applyStrokeCommand,
+  applyLayerCommand,
+  ComposerCommand,
+} from '../services/composerHistory';
+import DrawingLayerView, { BrushTools, pointsToPath } from './DrawingLayerView';
+import ImageLayerView, { ImageLayerContent, RepostLayerContent } from './ImageLayerView';
+import RepostCropOverlay from './RepostCropOverlay';
+import CanvasBackgroundView from './CanvasBackgroundView';
+import ColorPicker from './ColorPicker';
+import PostPreview from './PostPreview';
+import StyledText, {
+  BackgroundShapes,
+  GlowRadius,
+  OutlineWidths,
+  ShadowPresets,
+} from './StyledText';
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  CanvasPoint,
+  FULL_REPOST_CROP,
+  getCanvasViewport,
+  SnapResult,
+  snapToGuides,
+  toCanvasPoint,
+  toScreenPoint,
+} from '../services/canvasLayout';
+import {
+  buildPostLayout,
+  getBoxMetrics,
+  getLayerBounds,
+  layoutPost,
+  layoutTextElement,
+  PostLayoutInput,
+  resolveTextEffects,
+  serializeTextElement,
+  TEXT_MARGIN,
+} from '../services/layoutEngine';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
-interface TextElement {
-  id: string;
-  content: string;
-  x: number;
-  y: number;
-  originalX: number | null;
-  originalY: number | null;
-  fontSize: number;
-  color: string;
-  fontFamily: 'arial-black' | 'crimson-text' | 'papyrus' | 'impact';
-  hasBackground: boolean;
-  backgroundColor: string;
-  backgroundMode: 'off' | 'white' | 'inverted';
-  capsLock: boolean;
-  scale: number;
-}
+// Everything on the canvas is stored in logical canvas units and only mapped to screen points to draw it
+const viewport = getCanvasViewport(screenWidth, screenHeight);
+
+// Font size for new text in canvas units - roughly 24pt on a typical phone. Slider ranges are per font.
+const DEFAULT_FONT_SIZE = 66;
+
+// Outline and glow colours - black and white first since they read on anything
+const EFFECT_COLORS = ['#000000', '#FFFFFF', ...Colors.postColors.filter(color => color !== '#000000')];
+
+// How close (screen points) a dragged element has to get before it snaps to a guide
+const SNAP_THRESHOLD = 8;
+
+// Drag-to-delete target, centered at the bottom of the screen
+const TRASH_ZONE_SIZE = 64;
+const TRASH_ZONE_BOTTOM = 48;
+
+// Finger position in screen points
+const isTouchOverTrash = (touch: CanvasPoint) =>
+  Math.hypot(
+    touch.x - screenWidth / 2,
+    touch.y - (screenHeight - TRASH_ZONE_BOTTOM - TRASH_ZONE_SIZE / 2),
+  ) < TRASH_ZONE_SIZE;
+
+// Where the layout engine will put an element's box, for snapping
+const getElementBounds = (el: ComposerTextElement) => layoutTextElement(serializeTextElement(el), CANVAS_WIDTH).bounds;
+
+// Quiet period after the last edit before the draft is written to disk
+const DRAFT_SAVE_DELAY_MS = 800;
+
+const STICKER_SIZE = 330;
+
+// Clipboard images arrive as data URIs - write them out so they upload like picked photos
+const saveClipboardImage = (dataUri: string) => {
+  const base64 = dataUri.replace(/^data:image\/\w+;base64,/, '');
+  const file = new File(Paths.cache, `clipboard-${Date.now()}.png`);
+  file.write(Uint8Array.from(atob(base64), char => char.charCodeAt(0)));
+  return file.uri;
+};
+
+// Fits a photo's natural size into a comfortable starting size on the canvas
+const getPhotoLayerSize = (width: number, height: number) => {
+  const maxWidth = CANVAS_WIDTH * 0.6;
+  const maxHeight = CANVAS_HEIGHT * 0.5;
+  if (!width || !height) return { width: maxWidth, height: maxWidth };
+  const fit = Math.min(maxWidth / width, maxHeight / height);
+  return { width: width * fit, height: height * fit };
+};
+
+// Where a quoted post starts: centred, most of the canvas, uncropped
+const getDefaultRepostGeometry = (imageWidth: number, imageHeight: number): RepostGeometry => {
+  const fit = Math.min((CANVAS_WIDTH * 0.85) / imageWidth, (CANVAS_HEIGHT * 0.7) / imageHeight);
+  return {
+    x: CANVAS_WIDTH / 2,
+    y: CANVAS_HEIGHT / 2,
+    width: imageWidth * fit,
+    height: imageHeight * fit,
+    scale: 1,
+    rotation: 0,
+    crop: FULL_REPOST_CROP,
+    opacity: 1,
+  };
+};
+
+// The quoted post goes through the same gesture handling as photos, under this id
+const REPOST_LAYER_ID = 'repost';
+
+const REPOST_OPACITIES = [0.25, 0.5, 0.75, 1];
 
 interface Props {
   onPost?: (post: any) => void;
   onClose?: () => void;
+  onOpenDrafts?: () => void;
   repostData?: RepostData;
+  draft?: Draft;
 }
 // Heuristic: normalize and provide fallbacks iOS sometimes needs
 const buildImageCandidates = (raw?: string) => {
@@ -83,39 +208,18 @@ const buildImageCandidates = (raw?: string) => {
   return candidates;
 };
 
-const RepostImageLayer = ({ uri }: { uri?: string }) => {
-  if (!uri) return null;
-
-  console.log('🖼️ RepostImageLayer rendering with URI:', uri);
-  
-  return (
-    <View style={styles.repostImage}>
-      <Image 
-        source={{ uri }}
-        style={{ 
-          width: '100%', 
-          height: '100%',
-          opacity: 0.7
-        }}
-        resizeMode="contain" // Use contain to prevent overflow
-        onLoad={() => console.log('✅ Image loaded successfully')}
-        onError={(error) => console.log('❌ Image error:', error)}
-      />
-    </View>
-  );
-};
-
-export default function PostComposer({ onPost, onClose, repostData }: Props) {
+export default function PostComposer({ onPost, onClose, onOpenDrafts, repostData, draft }: Props) {
   // Text elements state
-  const [textElements, setTextElements] = useState<TextElement[]>([
+  const [textElements, setTextElements] = useState<ComposerTextElement[]>(() =>
+    draft?.textElements || [
     {
       id: '1',
       content: '',
-      x: screenWidth / 2,
-      y: screenHeight * 0.3, // Position in upper third of screen
+      x: CANVAS_WIDTH / 2,
+      y: CANVAS_HEIGHT * 0.3, // Position in upper third of screen
       originalX: null,
       originalY: null,
-      fontSize: 24,
+      fontSize: DEFAULT_FONT_SIZE,
       color: '#FF1A1A',
       fontFamily: 'arial-black',
       hasBackground: false,
@@ -123,25 +227,61 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
       backgroundMode: 'off',
       capsLock: true,
       scale: 1,
+      rotation: 0,
     }
   ]);
   
-  const [selectedTextId, setSelectedTextId] = useState<string>('1');
+  const [selectedTextId, setSelectedTextId] = useState<string>(draft ? '' : '1');
   const [isEditingText, setIsEditingText] = useState(false);
   const [isPosting, setIsPosting] = useState(false);
-  const [currentFontSize, setCurrentFontSize] = useState<number>(24); // Current editing font size (12-48)
+  const [currentFontSize, setCurrentFontSize] = useState<number>(DEFAULT_FONT_SIZE); // Current editing font size, in canvas units
   
   // Local state for immediate text input updates (prevents input lag)
   const [localTextContent, setLocalTextContent] = useState<Record<string, string>>({});
   
   // Canvas background
-  const [backgroundColor, setBackgroundColor] = useState('#F8F8FF');
-  const [backgroundGradient, setBackgroundGradient] = useState<string[]>([]);
-  const backgroundOptions = ['#F8F8FF', '#1B1B1B', '#FF1A1A', '#4A90E2', '#7B68EE', '#FF6B6B', '#4ECDC4'];
-  const [currentBgIndex, setCurrentBgIndex] = useState(0);
+  const [backgroundColor, setBackgroundColor] = useState(draft?.backgroundColor || '#F8F8FF');
+  const [backgroundGradient, setBackgroundGradient] = useState<string[]>(draft?.backgroundGradient || []);
+  const [backgroundGradientAngle, setBackgroundGradientAngle] = useState(draft?.backgroundGradientAngle ?? 180);
+  const [backgroundPattern, setBackgroundPattern] = useState<BackgroundPattern | undefined>(draft?.backgroundPattern);
+  const [showBackgroundTray, setShowBackgroundTray] = useState(false);
+  const [backgroundTab, setBackgroundTab] = useState<'color' | 'gradient' | 'pattern'>('color');
+  const [selectedStopIndex, setSelectedStopIndex] = useState(0);
+  
+  // Feed preview, shown before posting
+  const [previewPayload, setPreviewPayload] = useState<PostCreate | null>(null);
+  const captureViewRef = useRef<View>(null);
+  // Set from the first tap on the preview's Post button until that post is handled
+  const isConfirmingRef = useRef(false);
+  
+  // Drawing layer
+  const [drawingStrokes, setDrawingStrokes] = useState<DrawingStroke[]>(draft?.drawingStrokes || []);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [brushTool, setBrushTool] = useState<BrushTool>('pen');
+  const [brushColor, setBrushColor] = useState(Colors.postColors[1]);
+  const [brushWidthIndex, setBrushWidthIndex] = useState(1);
+  const [liveStroke, setLiveStroke] = useState<DrawingStroke | null>(null);
+  const strokePoints = useRef<{ x: number; y: number }[]>([]);
+  
+  // Photo and sticker layers
+  const [imageLayers, setImageLayers] = useState<ComposerImageLayer[]>(draft?.imageLayers || []);
+  const [showAddLayerTray, setShowAddLayerTray] = useState(false);
+
+  // The quoted post, once placed
+  const [repostGeometry, setRepostGeometry] = useState<RepostGeometry | undefined>(repostData?.geometry);
+  const [showRepostTray, setShowRepostTray] = useState(false);
+  const [isCroppingRepost, setIsCroppingRepost] = useState(false);
+
+  // Dragging feedback - guides, the trash zone and the feed crop only show mid-drag
+  const [isDraggingElement, setIsDraggingElement] = useState(false);
+  const [isOverTrash, setIsOverTrash] = useState(false);
+  const [isDraggingRepost, setIsDraggingRepost] = useState(false); // The quote can't be thrown away
+  const [snapGuides, setSnapGuides] = useState<SnapResult['guides']>({});
+  const isOverTrashRef = useRef(false);
+  const snapGuidesRef = useRef<SnapResult['guides']>({});
   
   // UI state - Instagram Create Mode
-  const [activeControlOption, setActiveControlOption] = useState<'font' | 'color' | 'glow' | 'background'>('font');
+  const [activeControlOption, setActiveControlOption] = useState<'font' | 'color' | 'effects' | 'background'>('font');
   const [showControlBar, setShowControlBar] = useState(false);
   const [screenDarkened, setScreenDarkened] = useState(false);
   
@@ -151,13 +291,128 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
 
   const maxLength = 500;
 
+  // Draft autosave - resumed drafts keep their id so edits update them in place
+  const draftIdRef = useRef(draft?.id || createDraftId());
+  const pendingDraftRef = useRef<DraftContent | null>(null);
+  const lastSavedDraftRef = useRef(draft ? JSON.stringify({
+    textElements: draft.textElements,
+    backgroundColor: draft.backgroundColor,
+    backgroundGradient: draft.backgroundGradient,
+    backgroundGradientAngle: draft.backgroundGradientAngle,
+    backgroundPattern: draft.backgroundPattern,
+    drawingStrokes: draft.drawingStrokes,
+    imageLayers: draft.imageLayers,
+    repostData: draft.repostData,
+  }) : '');
+  const isSubmittedRef = useRef(false);
+
+  // Text still being typed lives in localTextContent until editing stops
+  const getCommittedElements = () => textElements.map(el => ({
+    ...el,
+    content: localTextContent[el.id] !== undefined ? localTextContent[el.id] : el.content
+  }));
+
+  const saveDraftNow = () => {
+    const content = pendingDraftRef.current;
+    pendingDraftRef.current = null;
+    if (!content || isSubmittedRef.current) return;
+
+    const serialized = JSON.stringify(content);
+    if (serialized === lastSavedDraftRef.current) return;
+    lastSavedDraftRef.current = serialized;
+    draftService.saveDraft(draftIdRef.current, content);
+  };
+
+  useEffect(() => {
+    const content: DraftContent = {
+      textElements: getCommittedElements(),
+      backgroundColor,
+      backgroundGradient,
+      backgroundGradientAngle,
+      backgroundPattern,
+      drawingStrokes,
+      imageLayers,
+      repostData: repostData && { ...repostData, geometry: repostGeometry },
+    };
+    if (isDraftEmpty(content)) {
+      pendingDraftRef.current = null;
+      return;
+    }
+    pendingDraftRef.current = content;
+    const timer = setTimeout(saveDraftNow, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    textElements,
+    localTextContent,
+    backgroundColor,
+    backgroundGradient,
+    backgroundGradientAngle,
+    backgroundPattern,
+    drawingStrokes,
+    imageLayers,
+    repostData,
+    repostGeometry,
+  ]);
+
+  // Place a new quote once we know its shape - the original's canvas size, or the image's own
+  useEffect(() => {
+    if (!repostData || repostGeometry) return;
+    const place = (width: number, height: number) => setRepostGeometry(getDefaultRepostGeometry(width, height));
+    const { image_width, image_height } = repostData.originalPost;
+    if (image_width && image_height) {
+      place(image_width, image_height);
+      return;
+    }
+    Image.getSize(repostData.screenshotUri, place, () => place(CANVAS_WIDTH, CANVAS_HEIGHT));
+  }, [repostData]);
+
+  // Flush an autosave that hasn't fired yet when the composer closes
+  useEffect(() => () => saveDraftNow(), []);
+
+  // The post is out (or queued) - its draft is no longer needed
+  const discardDraft = () => {
+    isSubmittedRef.current = true;
+    pendingDraftRef.current = null;
+    draftService.deleteDraft(draftIdRef.current);
+  };
+
+  const handleOpenDrafts = () => {
+    saveDraftNow();
+    onOpenDrafts?.();
+  };
+
+
+  // Undo/redo - every recorded edit goes through runCommand
+  const runCommand = useCallback((command: ComposerCommand) => {
+    if (command.type === 'set_background') {
+      setBackgroundColor(command.after.color);
+      setBackgroundGradient(command.after.gradient);
+      setBackgroundGradientAngle(command.after.gradientAngle);
+      setBackgroundPattern(command.after.pattern);
+      return;
+    }
+    if (command.type === 'add_stroke' || command.type === 'remove_stroke') {
+      setDrawingStrokes(prev => applyStrokeCommand(prev, command));
+      return;
+    }
+    if (command.type === 'add_layer' || command.type === 'remove_layer' || command.type === 'update_layer') {
+      setImageLayers(prev => applyLayerCommand(prev, command));
+      return;
+    }
+    if (command.type === 'update_repost') {
+      setRepostGeometry(prev => prev && { ...prev, ...command.after });
+      return;
+    }
+    setTextElements(prev => applyElementCommand(prev, command));
+  }, []);
+  const history = useComposerHistory(runCommand);
 
   const getCurrentTextElement = () => {
     return textElements.find(el => el.id === selectedTextId) || textElements[0];
   };
 
-  const updateTextElement = (id: string, updates: Partial<TextElement>) => {
-    console.log('🔄 updateTextElement called:', { id, updates });
+  // Applies updates without touching history - used mid-gesture, the gesture records one step when it ends
+  const setElementLive = (id: string, updates: Partial<ComposerTextElement>) => {
     setTextElements(prev => {
       const newElements = prev.map(el => 
         el.id === id ? { ...el, ...updates } : el
@@ -167,6 +422,19 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
     });
   };
 
+  const updateTextElement = (id: string, updates: Partial<ComposerTextElement>, coalesceKey?: string) => {
+    console.log('🔄 updateTextElement called:', { id, updates });
+    const element = textElements.find(el => el.id === id);
+    if (!element) return;
+
+    const before: Partial<ComposerTextElement> = {};
+    const copyFromElement = <K extends keyof ComposerTextElement>(key: K) => {
+      before[key] = element[key];
+    };
+    (Object.keys(updates) as (keyof ComposerTextElement)[]).forEach(copyFromElement);
+    history.execute({ type: 'update_element', id, before, after: updates }, coalesceKey);
+  };
+
   // Handle text input changes with only local updates (no state updates until editing stops)
   const handleTextInputChange = useCallback((id: string, text: string) => {
     // Only update local state for immediate UI feedback
@@ -174,7 +442,7 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
   }, []);
 
   // Get the current display text (local if available, otherwise from state)
-  const getDisplayText = useCallback((element: TextElement) => {
+  const getDisplayText = useCallback((element: ComposerTextElement) => {
     return localTextContent[element.id] !== undefined 
       ? localTextContent[element.id] 
       : element.content;
@@ -195,7 +463,16 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
         
         if (currentContent.trim() === '') {
           console.log('🗑️ Removing empty text element');
-          setTextElements(prev => prev.filter(el => el.id !== currentElement.id));
+          if (currentElement.content.trim()) {
+            // Text was erased from an existing element - make the removal undoable
+            history.execute({
+              type: 'remove_element',
+              element: currentElement,
+              index: textElements.indexOf(currentElement),
+            });
+          } else {
+            setTextElements(prev => prev.filter(el => el.id !== currentElement.id));
+          }
           setSelectedTextId('');
           // Clear the local content for this element since we're removing it
           setLocalTextContent(prev => {
@@ -224,14 +501,13 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
     } else {
       console.log('➕ Creating new text element at:', { locationX, locationY });
       const newId = Date.now().toString();
-      const newElement: TextElement = {
+      const newElement: ComposerTextElement = {
         id: newId,
         content: '',
-        x: locationX,
-        y: locationY,
+        ...toCanvasPoint(viewport, { x: locationX, y: locationY }),
         originalX: null,
         originalY: null,
-        fontSize: 24,
+        fontSize: DEFAULT_FONT_SIZE,
         color: '#FF1A1A',
         fontFamily: 'arial-black',
         hasBackground: false,
@@ -239,6 +515,7 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
         backgroundMode: 'off',
         capsLock: true,
         scale: 1,
+        rotation: 0,
       };
       
       setTextElements(prev => [...prev, newElement]);
@@ -247,10 +524,12 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
     }
   };
 
+  // x and y are screen points - hit areas are sized for fingers, not the canvas
   const findElementAtPosition = (x: number, y: number) => {
     return textElements.find(element => {
-      const elementX = element.x - 100; // Account for centering
-      const elementY = element.y - 25;
+      const center = toScreenPoint(viewport, element);
+      const elementX = center.x - 100; // Account for centering
+      const elementY = center.y - 25;
       // Make the first/default text element easier to select with larger hit area
       const isFirstElement = element.id === '1';
       const elementWidth = isFirstElement ? 300 : 200; // Larger hit area for first element
@@ -265,90 +544,138 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
     });
   };
 
-  const deleteTextElement = (id: string) => {
-    if (textElements.length > 1) {
-      setTextElements(prev => prev.filter(el => el.id !== id));
-      if (selectedTextId === id) {
-        setSelectedTextId(textElements.find(el => el.id !== id)?.id || '');
-      }
+  // Dropped on the trash zone - undo brings it back where the drag started
+  const trashTextElement = (id: string, start: Partial<ComposerTextElement>) => {
+    const element = textElements.find(el => el.id === id);
+    if (!element) return;
+    if (textElements.length <= 1) {
+      // Always keep one element to type into
+      setElementLive(id, start);
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    history.execute({ type: 'remove_element', element: { ...element, ...start }, index: textElements.indexOf(element) });
+    if (selectedTextId === id) {
+      setSelectedTextId(textElements.find(el => el.id !== id)?.id || '');
     }
   };
 
-  const handlePost = async () => {
-    // Commit any pending local text changes to state before posting
-    Object.entries(localTextContent).forEach(([id, content]) => {
-      updateTextElement(id, { content });
-    });
+  // Everything the server renders from, plus the photo files that go with it
+  const buildPostPayload = (elements: ComposerTextElement[]) => {
+    const allText = elements
+      .filter(el => el.content.trim())
+      .map(el => el.content)
+      .join(' ');
+    const { imageLayers: serializedLayers, attachments } = serializeImageLayers(imageLayers);
+    // Colours and effects as drawn, so the server renderer doesn't need to know about background modes
+    const serializedElements = elements.map(serializeTextElement);
+    const firstElement = serializedElements[0];
 
-    
-    // Wait for state update to complete, then check content
-    // Use local content for immediate validation, but state will be updated for the actual post
-    const currentElements = textElements.map(el => ({
-      ...el,
-      content: localTextContent[el.id] !== undefined ? localTextContent[el.id] : el.content
-    }));
-    
-    const allText = currentElements
+    const payload: PostLayoutInput = {
+      text_content: allText,
+      text_elements: serializedElements,
+      font_choice: elements[0]?.fontFamily || 'arial-black',
+      font_size: Math.round((elements[0]?.fontSize || DEFAULT_FONT_SIZE) * (elements[0]?.scale || 1)),
+      text_color: firstElement?.color || '#FF1A1A',
+      background_color: backgroundColor,
+      background_gradient: backgroundGradient.length > 0 ? backgroundGradient : undefined,
+      background_gradient_angle: backgroundGradient.length > 0 ? backgroundGradientAngle : undefined,
+      background_pattern: backgroundPattern,
+      has_outline: !!firstElement?.effects?.outline,
+      outline_color: firstElement?.effects?.outline?.color || '#000000',
+      has_text_background: firstElement?.hasBackground || false,
+      text_background_color: firstElement?.hasBackground ? firstElement.backgroundColor : undefined,
+      canvas_width: CANVAS_WIDTH,
+      canvas_height: CANVAS_HEIGHT,
+      drawing_layers: drawingStrokes.length > 0 ? [{ z_index: DRAWING_LAYER_Z_INDEX, strokes: drawingStrokes }] : undefined,
+      image_layers: serializedLayers.length > 0 ? serializedLayers : undefined,
+      repost_data: repostData ? {
+        original_post_id: repostData.originalPost.id,
+        screenshot_uri: repostData.screenshotUri,
+        repost_geometry: repostGeometry,
+      } : undefined,
+    };
+    return { payload, attachments };
+  };
+
+  const checkPostText = (elements: ComposerTextElement[]) => {
+    const allText = elements
       .filter(el => el.content.trim())
       .map(el => el.content)
       .join(' ');
     
     if (!allText.trim()) {
       Alert.alert('Error', 'Please add some text before posting');
-      return;
+      return false;
     }
 
     if (allText.length > maxLength) {
       Alert.alert('Error', `Text must be under ${maxLength} characters`);
+      return false;
+    }
+    return true;
+  };
+
+  // The post as the feed will show it, laid out the way the server renders it
+  const openPreview = () => {
+    const currentElements = getCommittedElements();
+    if (!checkPostText(currentElements)) return;
+
+    const { payload } = buildPostPayload(currentElements);
+    setPreviewPayload({ ...payload, layout: buildPostLayout(payload) });
+  };
+
+  // Posts from the preview, with an on-device render attached in case the server can't render it
+  const confirmPost = async () => {
+    // A second tap while the canvas is being captured would post twice
+    if (isConfirmingRef.current) return;
+    isConfirmingRef.current = true;
+    setIsPosting(true);
+
+    // Same key for the first attempt and any outbox retries, so the server can dedupe
+    const idempotencyKey = createIdempotencyKey();
+
+    try {
+      let clientRender: PostAttachment | undefined;
+      try {
+        clientRender = await captureCanvas(captureViewRef);
+      } catch (error) {
+        // Not fatal - the server renders every post itself when it can
+        console.error('Error capturing post:', error);
+      }
+      setPreviewPayload(null);
+      await handlePost(idempotencyKey, clientRender);
+    } finally {
+      isConfirmingRef.current = false;
+    }
+  };
+
+  const handlePost = async (idempotencyKey: string, clientRender?: PostAttachment) => {
+    // Use local content for immediate validation, but state will be updated for the actual post
+    const currentElements = getCommittedElements();
+    if (!checkPostText(currentElements)) {
+      setIsPosting(false);
       return;
     }
 
     // Dopamine hit - animate button
     postButtonScale.value = withSpring(0.9, { duration: 100 });
     postButtonOpacity.value = withTiming(0.7, { duration: 100 });
-    
-    setIsPosting(true);
 
+    const { payload, attachments } = buildPostPayload(currentElements);
     const postData: PostCreate = {
-      text_content: allText,
-      text_elements: currentElements.map(el => ({
-        content: el.content,
-        x: el.x,
-        y: el.y,
-        fontSize: Math.round(el.fontSize * el.scale), // Apply scale factor to get actual visual size
-        color: el.color,
-        fontFamily: el.fontFamily,
-        hasBackground: el.hasBackground,
-        backgroundColor: el.backgroundColor,
-      })),
-      font_choice: currentElements[0]?.fontFamily || 'arial-black',
-      font_size: Math.round((currentElements[0]?.fontSize || 24) * (currentElements[0]?.scale || 1)),
-      text_color: currentElements[0]?.color || '#FF1A1A',
-      background_color: backgroundColor,
-      background_gradient: backgroundGradient.length > 0 ? backgroundGradient : undefined,
-      has_outline: false,
-      outline_color: '#000000',
-      has_text_background: currentElements[0]?.hasBackground || false,
-      text_background_color: currentElements[0]?.hasBackground ? currentElements[0].backgroundColor : undefined,
-      canvas_width: Math.round(screenWidth),
-      canvas_height: Math.round(screenHeight),
-      repost_data: repostData ? {
-        original_post_id: repostData.originalPost.id,
-        screenshot_uri: repostData.screenshotUri,
-        // Simple repost geometry
-        repost_geometry: {
-          x: 0,  // Position on canvas
-          y: 0,  // Position on canvas
-          scale: 1.0, // Scale factor
-        },
-      } : undefined,
+      ...payload,
+      layout: buildPostLayout(payload),
+      client_render_field: clientRender?.field,
     };
+    if (clientRender) attachments.push(clientRender);
 
     try {
-      const response = await api.post(endpoints.createPost, postData);
+      const response = await submitPost(postData, idempotencyKey, attachments);
       
       // Success animation
       postButtonScale.value = withSpring(1.1, { duration: 200 });
+      discardDraft();
       
       setTimeout(() => {
         onPost?.(response.data);
@@ -364,6 +691,20 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
       
     } catch (error: any) {
       console.error('Error creating post:', error);
+
+      // Offline or server trouble - keep the post in the outbox instead of losing it
+      if (isRetryableError(error)) {
+        await outboxService.enqueue(postData, idempotencyKey, error, attachments);
+        discardDraft();
+        onClose?.();
+        Toast.show({
+          type: 'info',
+          text1: 'Saved to outbox',
+          text2: 'We\'ll post it as soon as we can reach the server',
+          position: 'bottom',
+        });
+        return;
+      }
       
       // Reset button animation
       postButtonScale.value = withSpring(1, { duration: 200 });
@@ -405,14 +746,15 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
       
       // Only move text if it's outside the visible area (with some margin)
       const margin = 100;
-      const isOffScreen = element.x < margin || 
-                         element.x > screenWidth - margin || 
-                         element.y < margin || 
-                         element.y > screenHeight - margin;
+      const { x, y } = toScreenPoint(viewport, element);
+      const isOffScreen = x < margin || 
+                         x > screenWidth - margin || 
+                         y < margin || 
+                         y > screenHeight - margin;
       
       if (isOffScreen) {
-        element.x = screenWidth * 0.5;
-        element.y = screenHeight * 0.3;
+        element.x = CANVAS_WIDTH * 0.5;
+        element.y = CANVAS_HEIGHT * 0.3;
       }
       // If text is already on-screen, leave it where it is
     }
@@ -426,7 +768,20 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
     // Commit any local text changes and font size to actual state before stopping edit mode
     Object.entries(localTextContent).forEach(([id, content]) => {
       console.log(`💾 Committing text for element ${id}:`, content);
-      updateTextElement(id, { content, fontSize: currentFontSize });
+      const element = textElements.find(el => el.id === id);
+      // Emptied elements are removed by handleCanvasTap
+      if (!element || !content.trim()) return;
+
+      if (!element.content.trim()) {
+        // First text in a fresh element - undo takes it away entirely
+        history.execute({
+          type: 'add_element',
+          element: { ...element, content, fontSize: currentFontSize },
+          index: textElements.indexOf(element),
+        });
+      } else if (content !== element.content || currentFontSize !== element.fontSize) {
+        updateTextElement(id, { content, fontSize: currentFontSize });
+      }
     });
     
     setIsEditingText(false);
@@ -438,22 +793,32 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
     console.log('✅ stopEditingText completed');
   };
 
-  const cycleBackgroundColor = () => {
-    const nextIndex = (currentBgIndex + 1) % backgroundOptions.length;
-    setCurrentBgIndex(nextIndex);
-    setBackgroundColor(backgroundOptions[nextIndex]);
+  const canvasBackground: CanvasBackground = {
+    color: backgroundColor,
+    gradient: backgroundGradient,
+    gradientAngle: backgroundGradientAngle,
+    pattern: backgroundPattern,
+  };
+
+  const updateBackground = (updates: Partial<CanvasBackground>) => {
+    // Picker drags and rapid taps collapse into a single undo step
+    history.execute({
+      type: 'set_background',
+      before: canvasBackground,
+      after: { ...canvasBackground, ...updates },
+    }, 'background');
   };
 
   const createNewTextElement = () => {
     const newId = Date.now().toString();
-    const newElement: TextElement = {
+    const newElement: ComposerTextElement = {
       id: newId,
       content: '',
-      x: screenWidth / 2,
-      y: screenHeight * 0.3, // Position in upper third of screen, above controls
+      x: CANVAS_WIDTH / 2,
+      y: CANVAS_HEIGHT * 0.3, // Position in upper third of screen, above controls
       originalX: null,
       originalY: null,
-      fontSize: 24,
+      fontSize: DEFAULT_FONT_SIZE,
       color: '#FF1A1A',
       fontFamily: 'arial-black',
       hasBackground: false,
@@ -461,221 +826,1009 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
       backgroundMode: 'off',
       capsLock: true,
       scale: 1,
+      rotation: 0,
     };
     setTextElements(prev => [...prev, newElement]);
     setSelectedTextId(newId);
     startEditingText(newId);
   };
 
-  const getTextStyle = (element: TextElement) => {
-    const fontConfig = FontChoices[element.fontFamily];
-    
-    let textColor = element.color;
-    let bgColor = 'transparent';
-    let hasPadding = false;
-    
-    if (element.backgroundMode === 'white') {
-      bgColor = '#FFFFFF';
-      hasPadding = true;
-    } else if (element.backgroundMode === 'inverted') {
-      bgColor = element.color;
-      textColor = '#FFFFFF';
-      hasPadding = true;
-    }
+  // Style for the text while it's being typed - outline and shadow return once editing ends (see StyledText)
+  const getTextStyle = (element: ComposerTextElement) => {
+    const fontConfig = getFont(element.fontFamily);
+    const { color: textColor, effects } = resolveTextEffects(element);
+    const bgColor = effects.background?.color || 'transparent';
+    const box = getBoxMetrics(effects.background?.shape, element.fontSize);
     
     return {
-      fontSize: element.fontSize,
+      fontSize: element.fontSize * viewport.scale,
       color: textColor,
       fontFamily: fontConfig.fontFamily,
-      fontWeight: fontConfig.fontWeight as any,
       textAlign: 'center' as const,
       backgroundColor: bgColor,
-      paddingHorizontal: hasPadding ? 8 : 0,
-      paddingVertical: hasPadding ? 4 : 0,
-      borderRadius: hasPadding ? 4 : 0,
+      paddingHorizontal: box.paddingX * viewport.scale,
+      paddingVertical: box.paddingY * viewport.scale,
+      borderRadius: box.radius * viewport.scale,
       textTransform: element.capsLock ? 'uppercase' : 'none' as any,
       includeFontPadding: false,
       textAlignVertical: 'center' as const,
-      transform: [{ scale: element.scale }], // Apply absolute scale transform
+      ...(effects.glow && {
+        textShadowColor: effects.glow.color,
+        textShadowOffset: { width: 0, height: 0 },
+        textShadowRadius: effects.glow.radius * viewport.scale,
+      }),
     };
   };
 
-  // Keep the start positions per element
-  const dragStart = useRef<Record<string, { x: number; y: number }>>({});
+  // Pan, pinch and rotation run simultaneously; one gesture (first finger down to last finger up) is one undo step
+  const textGesture = useRef<{
+    elementId: string;
+    start: Pick<ComposerTextElement, 'x' | 'y' | 'scale' | 'rotation'>;
+    updates: Partial<ComposerTextElement>;
+    handlers: Set<string>;
+  } | null>(null);
+  const textGestureRefs = useRef<Record<string, { pan: React.RefObject<any>; pinch: React.RefObject<any>; rotation: React.RefObject<any> }>>({});
 
-  const handlePanStateChange = (event: any, elementId: string) => {
+  const getTextGestureRefs = (elementId: string) => {
+    if (!textGestureRefs.current[elementId]) {
+      textGestureRefs.current[elementId] = { pan: createRef(), pinch: createRef(), rotation: createRef() };
+    }
+    return textGestureRefs.current[elementId];
+  };
+
+  const handleTextGestureStateChange = (event: any, elementId: string, handler: 'pan' | 'pinch' | 'rotation') => {
     const { state } = event.nativeEvent;
     if (state === State.BEGAN) {
-      const el = textElements.find(e => e.id === elementId);
-      if (el) dragStart.current[elementId] = { x: el.x, y: el.y };
+      if (!textGesture.current || textGesture.current.elementId !== elementId) {
+        const el = textElements.find(e => e.id === elementId);
+        if (!el) return;
+        textGesture.current = {
+          elementId,
+          start: { x: el.x, y: el.y, scale: el.scale, rotation: el.rotation },
+          updates: {},
+          handlers: new Set(),
+        };
+      }
+      textGesture.current.handlers.add(handler);
     }
     if (state === State.END || state === State.CANCELLED || state === State.FAILED) {
-      delete dragStart.current[elementId];
+      const gesture = textGesture.current;
+      if (!gesture || gesture.elementId !== elementId || !gesture.handlers.delete(handler)) return;
+      if (gesture.handlers.size > 0) return;
+      textGesture.current = null;
+
+      const droppedOnTrash = isOverTrashRef.current;
+      endDrag();
+      if (droppedOnTrash) {
+        trashTextElement(elementId, gesture.start);
+        return;
+      }
+
+      const keys = Object.keys(gesture.updates) as (keyof typeof gesture.start)[];
+      if (keys.length === 0) return;
+      const before: Partial<ComposerTextElement> = {};
+      keys.forEach(key => {
+        before[key] = gesture.start[key];
+      });
+      history.record({ type: 'update_element', id: elementId, before, after: gesture.updates });
+    }
+  };
+
+  const applyTextGesture = (elementId: string, updates: Partial<ComposerTextElement>) => {
+    const gesture = textGesture.current;
+    if (!gesture || gesture.elementId !== elementId) return;
+    // Taps begin a gesture too, so the drag overlay waits for actual movement
+    beginDrag();
+    gesture.updates = { ...gesture.updates, ...updates };
+    setElementLive(elementId, updates);
+  };
+
+  const beginDrag = (id?: string) => {
+    setIsDraggingElement(true);
+    setIsDraggingRepost(id === REPOST_LAYER_ID);
+  };
+
+  const endDrag = () => {
+    setIsDraggingElement(false);
+    setIsDraggingRepost(false);
+    isOverTrashRef.current = false;
+    setIsOverTrash(false);
+    updateSnapGuides({});
+  };
+
+  // Returns whether the finger is over the trash zone, with a tick when it enters
+  const updateTrashHover = (touch: CanvasPoint) => {
+    const overTrash = isTouchOverTrash(touch);
+    if (overTrash !== isOverTrashRef.current) {
+      isOverTrashRef.current = overTrash;
+      setIsOverTrash(overTrash);
+      if (overTrash) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     }
+    return overTrash;
   };
 
+  // Ticks each time a new guide line engages
+  const updateSnapGuides = (guides: SnapResult['guides']) => {
+    const previous = snapGuidesRef.current;
+    if (guides.x === previous.x && guides.y === previous.y) return;
+    if ((guides.x !== undefined && guides.x !== previous.x) || (guides.y !== undefined && guides.y !== previous.y)) {
+      Haptics.selectionAsync();
+    }
+    snapGuidesRef.current = guides;
+    setSnapGuides(guides);
+  };
+
+  const getPinchScale = (startScale: number, gestureScale: number) =>
+    Math.max(0.3, Math.min(5.0, startScale * gestureScale));
+
   const handlePanGesture = (event: any, elementId: string) => {
-    if (event.nativeEvent.state !== State.ACTIVE || isEditingText) return;
-    const start = dragStart.current[elementId];
-    if (!start) return;
+    const gesture = textGesture.current;
+    const element = textElements.find(el => el.id === elementId);
+    if (event.nativeEvent.state !== State.ACTIVE || isEditingText || !gesture || !element) return;
 
-    const { translationX, translationY } = event.nativeEvent;
-    const newX = start.x + translationX;
-    const newY = start.y + translationY;
-    
-    updateTextElement(elementId, {
-      x: newX, // Full responsiveness - no dampening
-      y: newY,
-    });
+    const { translationX, translationY, absoluteX, absoluteY } = event.nativeEvent;
+    const overTrash = updateTrashHover({ x: absoluteX, y: absoluteY });
+    const x = gesture.start.x + translationX / viewport.scale; // Full responsiveness - no dampening
+    const y = gesture.start.y + translationY / viewport.scale;
+
+    // Snap to the canvas centre and to everything else on it
+    const others = [
+      ...textElements.filter(el => el.id !== elementId && el.content.trim()).map(getElementBounds),
+      ...imageLayers.map(getLayerBounds),
+      ...(repostGeometry ? [getLayerBounds(repostGeometry)] : []),
+    ];
+    const snap = overTrash
+      ? { dx: 0, dy: 0, guides: {} }
+      : snapToGuides(getElementBounds({ ...element, x, y }), others, SNAP_THRESHOLD / viewport.scale);
+    updateSnapGuides(snap.guides);
+    applyTextGesture(elementId, { x: x + snap.dx, y: y + snap.dy });
   };
 
   const handlePinchGesture = (event: any, elementId: string) => {
-    if (event.nativeEvent.state === State.ACTIVE) {
-      const element = textElements.find(el => el.id === elementId);
-      if (element && !isEditingText) {
-        const newScale = Math.max(0.3, Math.min(5.0, element.scale * event.nativeEvent.scale));
-        updateTextElement(elementId, {
-          scale: newScale, // Use scale instead of fontSize for absolute scaling
-        });
-      }
-    }
+    const gesture = textGesture.current;
+    if (event.nativeEvent.state !== State.ACTIVE || isEditingText || !gesture) return;
+    // Gesture scale is cumulative since the pinch began, so apply it to the starting scale
+    applyTextGesture(elementId, {
+      scale: getPinchScale(gesture.start.scale, event.nativeEvent.scale), // Use scale instead of fontSize for absolute scaling
+    });
+  };
+
+  const handleRotationGesture = (event: any, elementId: string) => {
+    const gesture = textGesture.current;
+    if (event.nativeEvent.state !== State.ACTIVE || isEditingText || !gesture) return;
+    applyTextGesture(elementId, {
+      rotation: gesture.start.rotation + (event.nativeEvent.rotation * 180) / Math.PI,
+    });
   };
 
   const renderEditableText = () => {
     return textElements.map((element) => {
+      const refs = getTextGestureRefs(element.id);
+      const center = toScreenPoint(viewport, element);
+      const editingFontSize = currentFontSize * viewport.scale;
       return (
         <PinchGestureHandler
           key={`pinch-${element.id}`}
+          ref={refs.pinch}
+          simultaneousHandlers={[refs.pan, refs.rotation]}
           onGestureEvent={(event) => handlePinchGesture(event, element.id)}
+          onHandlerStateChange={(event) => handleTextGestureStateChange(event, element.id, 'pinch')}
           enabled={!isEditingText}
         >
           <AnimatedReanimated.View 
             style={[
               styles.textElementTouchArea, // Much larger touch area for pinch
               {
-                left: element.x - 60,
-                top: element.y - 60,
+                left: center.x - 60,
+                top: center.y - 60,
               }
             ]}
           >
-            <PanGestureHandler
-              onGestureEvent={(event) => handlePanGesture(event, element.id)}
-              onHandlerStateChange={(event) => handlePanStateChange(event, element.id)}
+            <RotationGestureHandler
+              ref={refs.rotation}
+              simultaneousHandlers={[refs.pan, refs.pinch]}
+              onGestureEvent={(event) => handleRotationGesture(event, element.id)}
+              onHandlerStateChange={(event) => handleTextGestureStateChange(event, element.id, 'rotation')}
               enabled={!isEditingText}
             >
-              <AnimatedReanimated.View style={styles.textElement}>
-                {isEditingText && selectedTextId === element.id ? (
-                  <TextInput
-                    key={`input-${element.id}-${isEditingText}`} // Stable key for re-rendering
-                    style={[
-                      getTextStyle(element), 
-                      styles.textInput, 
-                      { 
-                        fontSize: currentFontSize, // Use current editing font size
-                        width: screenWidth * 0.95,
-                        maxWidth: screenWidth * 0.95,
-                        position: 'absolute',
-                        left: -(screenWidth * 0.95) / 2,
-                        top: -currentFontSize / 2,
-                      }
-                    ]}
-                    value={getDisplayText(element)}
-                    onChangeText={(text) => handleTextInputChange(element.id, text)}
-                    autoFocus
-                    multiline={true} // Enable multiline for wrapping
-                    textAlign="center"
-                    placeholder="TYPE HERE..."
-                    placeholderTextColor="rgba(255,255,255,0.5)"
-                  />
-                ) : (
-                  <TouchableOpacity 
-                    onPress={() => startEditingText(element.id)}
-                    onLongPress={() => deleteTextElement(element.id)}
-                  >
-                    <Text style={getTextStyle(element)}>
-                      {getDisplayText(element) || (element.id === '1' ? "TAP TO ADD TEXT" : "")}
-                    </Text>
-                  </TouchableOpacity>
-                )}
+              <AnimatedReanimated.View style={styles.textGestureLayer}>
+                <PanGestureHandler
+                  ref={refs.pan}
+                  simultaneousHandlers={[refs.pinch, refs.rotation]}
+                  onGestureEvent={(event) => handlePanGesture(event, element.id)}
+                  onHandlerStateChange={(event) => handleTextGestureStateChange(event, element.id, 'pan')}
+                  enabled={!isEditingText}
+                >
+                  <AnimatedReanimated.View style={styles.textElement}>
+                    {isEditingText && selectedTextId === element.id ? (
+                      <TextInput
+                        key={`input-${element.id}-${isEditingText}`} // Stable key for re-rendering
+                        style={[
+                          getTextStyle(element), 
+                          styles.textInput, 
+                          { 
+                            fontSize: editingFontSize, // Use current editing font size
+                            width: screenWidth * 0.95,
+                            maxWidth: screenWidth * 0.95,
+                            position: 'absolute',
+                            left: -(screenWidth * 0.95) / 2,
+                            top: -editingFontSize / 2,
+                            transform: [{ scale: element.scale }], // Typing stays level; rotation returns after editing
+                          }
+                        ]}
+                        value={getDisplayText(element)}
+                        onChangeText={(text) => handleTextInputChange(element.id, text)}
+                        autoFocus
+                        multiline={true} // Enable multiline for wrapping
+                        textAlign="center"
+                        placeholder="TYPE HERE..."
+                        placeholderTextColor="rgba(255,255,255,0.5)"
+                      />
+                    ) : (
+                      <TouchableOpacity
+                        onPress={() => startEditingText(element.id)}
+                        style={{ transform: [{ rotate: `${element.rotation}deg` }, { scale: element.scale }] }} // Apply absolute rotation and scale
+                      >
+                        <StyledText
+                          element={element}
+                          text={getDisplayText(element) || (element.id === '1' ? "TAP TO ADD TEXT" : "")}
+                          ratio={viewport.scale}
+                        />
+                      </TouchableOpacity>
+                    )}
+                  </AnimatedReanimated.View>
+                </PanGestureHandler>
               </AnimatedReanimated.View>
-            </PanGestureHandler>
+            </RotationGestureHandler>
           </AnimatedReanimated.View>
         </PinchGestureHandler>
       );
     });
   };
 
+  const toggleDrawingMode = () => {
+    if (isEditingText) {
+      stopEditingText();
+      Keyboard.dismiss();
+    }
+    setShowAddLayerTray(false);
+    setShowBackgroundTray(false);
+    closeRepostTray();
+    setIsDrawing(prev => !prev);
+  };
+
+  const toggleAddLayerTray = () => {
+    if (isEditingText) {
+      stopEditingText();
+      Keyboard.dismiss();
+    }
+    setIsDrawing(false);
+    setShowBackgroundTray(false);
+    closeRepostTray();
+    setShowAddLayerTray(prev => !prev);
+  };
+
+  const toggleBackgroundTray = () => {
+    if (isEditingText) {
+      stopEditingText();
+      Keyboard.dismiss();
+    }
+    setIsDrawing(false);
+    setShowAddLayerTray(false);
+    closeRepostTray();
+    setShowBackgroundTray(prev => !prev);
+  };
+
+  const closeRepostTray = () => {
+    setShowRepostTray(false);
+    setIsCroppingRepost(false);
+  };
+
+  const toggleRepostTray = () => {
+    if (isEditingText) {
+      stopEditingText();
+      Keyboard.dismiss();
+    }
+    setIsDrawing(false);
+    setShowAddLayerTray(false);
+    setShowBackgroundTray(false);
+    if (showRepostTray) closeRepostTray();
+    else setShowRepostTray(true);
+  };
+
+  // Live updates mid-gesture; the gesture records one undo step when it ends
+  const handleRepostLiveChange = (id: string, updates: Partial<LayerGeometry>) => {
+    setRepostGeometry(prev => prev && { ...prev, ...updates });
+  };
+
+  const handleRepostGestureEnd = (id: string, before: Partial<LayerGeometry>, after: Partial<LayerGeometry>) => {
+    endDrag();
+    if (Object.keys(after).length > 0) {
+      history.record({ type: 'update_repost', before, after });
+    }
+  };
+
+  const handleRepostCropEnd = (before: RepostGeometry, after: RepostGeometry) => {
+    const pick = ({ x, y, width, height, crop }: RepostGeometry) => ({ x, y, width, height, crop });
+    history.record({ type: 'update_repost', before: pick(before), after: pick(after) });
+  };
+
+  const addImageLayer = (layer: Omit<ComposerImageLayer, 'id' | 'x' | 'y' | 'scale' | 'rotation'>) => {
+    const newLayer: ComposerImageLayer = {
+      ...layer,
+      id: Date.now().toString(),
+      x: CANVAS_WIDTH / 2,
+      y: CANVAS_HEIGHT * 0.45,
+      scale: 1,
+      rotation: 0,
+    };
+    history.execute({ type: 'add_layer', layer: newLayer, index: imageLayers.length });
+    setShowAddLayerTray(false);
+  };
+
+  const handlePickPhoto = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({ mediaTypes: ['images'], quality: 0.9 });
+      if (result.canceled || !result.assets?.length) return;
+      const asset = result.assets[0];
+      addImageLayer({
+        kind: 'photo',
+        uri: asset.uri,
+        mimeType: asset.mimeType || 'image/jpeg',
+        ...getPhotoLayerSize(asset.width, asset.height),
+      });
+    } catch (error) {
+      console.error('Error picking photo:', error);
+      Alert.alert('Error', 'Could not open your photo library');
+    }
+  };
+
+  const handlePasteImage = async () => {
+    try {
+      if (!(await Clipboard.hasImageAsync())) {
+        Toast.show({
+          type: 'info',
+          text1: 'Nothing to paste',
+          text2: 'Copy an image first',
+        });
+        return;
+      }
+      const image = await Clipboard.getImageAsync({ format: 'png' });
+      if (!image) return;
+      addImageLayer({
+        kind: 'photo',
+        uri: saveClipboardImage(image.data),
+        mimeType: 'image/png',
+        ...getPhotoLayerSize(image.size.width, image.size.height),
+      });
+    } catch (error) {
+      console.error('Error pasting image:', error);
+      Alert.alert('Error', 'Could not paste that image');
+    }
+  };
+
+  const handleLayerLiveChange = (id: string, updates: Partial<LayerGeometry>) => {
+    setImageLayers(prev => prev.map(layer => (layer.id === id ? { ...layer, ...updates } : layer)));
+  };
+
+  const handleLayerDragMove = (id: string, touch: CanvasPoint) => {
+    updateTrashHover(touch);
+  };
+
+  const handleLayerGestureEnd = (id: string, before: Partial<LayerGeometry>, after: Partial<LayerGeometry>) => {
+    const droppedOnTrash = isOverTrashRef.current;
+    endDrag();
+
+    const layer = imageLayers.find(l => l.id === id);
+    if (droppedOnTrash && layer) {
+      // Undo brings it back where the drag started
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      history.execute({ type: 'remove_layer', layer: { ...layer, ...before }, index: imageLayers.indexOf(layer) });
+      return;
+    }
+
+    // Already on screen from the live updates - just make the whole gesture one undo step
+    if (Object.keys(after).length > 0) {
+      history.record({ type: 'update_layer', id, before, after });
+    }
+  };
+
+  const getBrushWidth = () => BrushTools[brushTool].widths[brushWidthIndex];
+
+  const handleDrawStateChange = (event: any) => {
+    const { state, x, y } = event.nativeEvent;
+    if (state === State.BEGAN) {
+      strokePoints.current = [toCanvasPoint(viewport, { x, y })];
+      setLiveStroke({
+        id: Date.now().toString(),
+        tool: brushTool,
+        color: brushColor,
+        width: getBrushWidth(),
+        path: pointsToPath(strokePoints.current),
+      });
+    }
+    if (state === State.END || state === State.CANCELLED || state === State.FAILED) {
+      if (liveStroke) {
+        const stroke = { ...liveStroke, path: pointsToPath(strokePoints.current) };
+        history.execute({ type: 'add_stroke', stroke, index: drawingStrokes.length });
+      }
+      strokePoints.current = [];
+      setLiveStroke(null);
+    }
+  };
+
+  const handleDrawGesture = (event: any) => {
+    if (event.nativeEvent.state !== State.ACTIVE) return;
+    const { x, y } = event.nativeEvent;
+    strokePoints.current.push(toCanvasPoint(viewport, { x, y }));
+    setLiveStroke(prev => prev && { ...prev, path: pointsToPath(strokePoints.current) });
+  };
+
+  // Snap guides, the band the feed will show, and the trash zone
+  const renderDragOverlay = () => {
+    const { crop } = layoutPost(buildPostPayload(textElements).payload);
+
+    return (
+      <>
+        <View style={[styles.canvasFrame, { zIndex: 25 }]} pointerEvents="none">
+          {crop && (
+            <>
+              <View style={[styles.cropShade, { top: 0, height: crop.top * viewport.scale }]} />
+              <View style={[styles.cropShade, { top: crop.bottom * viewport.scale, bottom: 0 }]} />
+            </>
+          )}
+          {snapGuides.x !== undefined && (
+            <View style={[styles.snapGuideVertical, { left: snapGuides.x * viewport.scale }]} />
+          )}
+          {snapGuides.y !== undefined && (
+            <View style={[styles.snapGuideHorizontal, { top: snapGuides.y * viewport.scale }]} />
+          )}
+        </View>
+
+        {!isDraggingRepost && (
+          <View style={[styles.trashZone, isOverTrash && styles.trashZoneActive]} pointerEvents="none">
+            <Ionicons name="trash" size={isOverTrash ? 30 : 24} color="white" />
+          </View>
+        )}
+      </>
+    );
+  };
+
   const renderCanvas = () => {
 
     const canvasChildren = (
       <View style={styles.fullScreenCanvas}>
-        {/* Repost image layer */}
-        <RepostImageLayer uri={repostData?.screenshotUri} />
-    
-        {/* 2) (Optional) keep your debug tint exactly in the same layer */}
-        {/* <View style={[styles.repostImage, { backgroundColor: 'rgba(0,255,0,0.15)' }]} pointerEvents="none" /> */}
-    
-        {/* 3) Dim overlay lives ABOVE the image but BELOW text */}
-        {screenDarkened && <View style={styles.screenOverlay} pointerEvents="none" />}
-        {/* 4) Interaction/text layer sits on top */}
+        {/* Interaction layer - the quote, drawings, photos and text, in canvas order */}
         <TouchableOpacity
           style={[StyleSheet.absoluteFill, { zIndex: 20 }]} 
           onPress={handleCanvasTap}
           activeOpacity={1}
         >
 
-          {renderEditableText()}
-        </TouchableOpacity>
-      </View>    
+          {/* The quoted post sits under everything but the background */}
+          {repostData && repostGeometry && (
+            <ImageLayerView
+              layer={{ id: REPOST_LAYER_ID, ...repostGeometry }}
+              viewport={viewport}
+              enabled={!isEditingText && !isDrawing && !isCroppingRepost}
+              onGestureStart={beginDrag}
+              onLiveChange={handleRepostLiveChange}
+              onDragMove={() => {}}
+              onGestureEnd={handleRepostGestureEnd}
+            >
+              <RepostLayerContent uri={repostData.screenshotUri} geometry={repostGeometry} />
+            </ImageLayerView>
+          )}
+
+          {/* Drawing layer - above the repost image, below text */}
+          <View style={styles.canvasFrame} pointerEvents="none">
+            <DrawingLayerView
+              strokes={liveStroke ? [...drawingStrokes, liveStroke] : drawingStrokes}
+              canvasWidth={CANVAS_WIDTH}
+              canvasHeight={CANVAS_HEIGHT}
+            />
+          </View>
+
+          {/* Photos and stickers sit under the text */}
+          {imageLayers.map(layer => (
+            <ImageLayerView
+              key={layer.id}
+              layer={layer}
+              viewport={viewport}
+              enabled={!isEditingText && !isDrawing}
+              onGestureStart={beginDrag}
+              onLiveChange={handleLayerLiveChange}
+              onDragMove={handleLayerDragMove}
+              onGestureEnd={handleLayerGestureEnd}
+            >
+              <ImageLayerContent layer={layer} height={layer.height * viewport.scale} />
+            </ImageLayerView>
+          ))}
+
+          {/* Dim overlay lives ABOVE the images but BELOW text */}
+          {screenDarkened && <View style={styles.screenOverlay} pointerEvents="none" />}
+
+          {renderEditableText()}
+        </TouchableOpacity>
+
+        {isDraggingElement && renderDragOverlay()}
+
+        {isCroppingRepost && repostGeometry && (
+          <View style={[StyleSheet.absoluteFill, { zIndex: 30 }]} pointerEvents="box-none">
+            <RepostCropOverlay
+              geometry={repostGeometry}
+              viewport={viewport}
+              onLiveChange={setRepostGeometry}
+              onCropEnd={handleRepostCropEnd}
+            />
+          </View>
+        )}
+
+        {/* Drawing mode captures every touch on the canvas */}
+        {isDrawing && (
+          <PanGestureHandler
+            minDist={0}
+            onGestureEvent={handleDrawGesture}
+            onHandlerStateChange={handleDrawStateChange}
+          >
+            <View style={[StyleSheet.absoluteFill, { zIndex: 30 }]} />
+          </PanGestureHandler>
+        )}
+      </View>    
+    );
+
+    return (
+      <CanvasBackgroundView
+        background={canvasBackground}
+        ratio={viewport.scale}
+        originX={viewport.offsetX}
+        originY={viewport.offsetY}
+        style={styles.fullScreenCanvas}
+      >
+        {canvasChildren}
+      </CanvasBackgroundView>
+    );
+  };
+
+  // Instagram Create Mode UI Components
+  const renderTopMenu = () => {
+    
+    return (
+      <View style={styles.topMenu}>
+        {/* Left - Close, Undo, Redo */}
+        <View style={styles.topMenuLeft}>
+          <TouchableOpacity style={styles.topMenuButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="white" />
+          </TouchableOpacity>
+          
+          <TouchableOpacity
+            style={styles.topMenuButton}
+            onPress={history.undo}
+            disabled={!history.canUndo || isEditingText}
+          >
+            <Ionicons
+              name="arrow-undo"
+              size={20}
+              color={history.canUndo && !isEditingText ? 'white' : 'rgba(255,255,255,0.5)'}
+            />
+          </TouchableOpacity>
+          
+          <TouchableOpacity
+            style={styles.topMenuButton}
+            onPress={history.redo}
+            disabled={!history.canRedo || isEditingText}
+          >
+            <Ionicons
+              name="arrow-redo"
+              size={20}
+              color={history.canRedo && !isEditingText ? 'white' : 'rgba(255,255,255,0.5)'}
+            />
+          </TouchableOpacity>
+        </View>
+        
+        {/* Right - Controls */}
+        <View style={styles.topMenuRight}>
+          {/* Background editor */}
+          <TouchableOpacity
+            style={[styles.topMenuButton, showBackgroundTray && styles.topMenuButtonActive]}
+            onPress={toggleBackgroundTray}
+          >
+            <View style={[styles.backgroundPreview, { backgroundColor: backgroundGradient[0] || backgroundColor }]} />
+          </TouchableOpacity>
+          
+          {/* Quoted post - crop and opacity */}
+          {repostGeometry && (
+            <TouchableOpacity
+              style={[styles.topMenuButton, showRepostTray && styles.topMenuButtonActive]}
+              onPress={toggleRepostTray}
+            >
+              <Ionicons name="repeat" size={20} color="white" />
+            </TouchableOpacity>
+          )}
+          
+          {/* Drafts */}
+          <TouchableOpacity style={styles.topMenuButton} onPress={handleOpenDrafts}>
+            <Ionicons name="documents-outline" size={20} color="white" />
+          </TouchableOpacity>
+          
+          {/* Text Button */}
+          <TouchableOpacity style={styles.topMenuButton} onPress={createNewTextElement}>
+            <Text style={styles.topMenuText}>Text</Text>
+          </TouchableOpacity>
+          
+          {/* Photos, clipboard and stickers */}
+          <TouchableOpacity
+            style={[styles.topMenuButton, showAddLayerTray && styles.topMenuButtonActive]}
+            onPress={toggleAddLayerTray}
+          >
+            <Ionicons name="image" size={20} color="white" />
+          </TouchableOpacity>
+          
+          {/* Brush - toggles drawing mode */}
+          <TouchableOpacity
+            style={[styles.topMenuButton, isDrawing && styles.topMenuButtonActive]}
+            onPress={toggleDrawingMode}
+          >
+            <Ionicons name="brush" size={20} color="white" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderFeedPreview = () => {
+    if (!previewPayload) return null;
+
+    return (
+      <>
+        {/* Full-size copy for the on-device render, hidden behind the overlay */}
+        <View ref={captureViewRef} collapsable={false} style={styles.captureCanvas} pointerEvents="none">
+          <PostPreview payload={previewPayload} imageLayers={imageLayers} width={screenWidth} fullCanvas />
+        </View>
+        <View style={styles.previewOverlay}>
+          <Text style={styles.previewTitle}>How it'll look in the feed</Text>
+          <ScrollView style={styles.previewScroll} contentContainerStyle={styles.previewScrollContent}>
+            <PostPreview payload={previewPayload} imageLayers={imageLayers} width={screenWidth} />
+          </ScrollView>
+          <View style={styles.previewActions}>
+            <TouchableOpacity style={styles.previewEditButton} onPress={() => setPreviewPayload(null)}>
+              <Text style={styles.previewEditText}>Keep editing</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.postButtonInline} onPress={confirmPost} disabled={isPosting}>
+              {isPosting ? (
+                <ActivityIndicator color="white" size="small" />
+              ) : (
+                <Text style={styles.postButtonText}>Post</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </>
+    );
+  };
+
+  const renderAddLayerTray = () => {
+    if (!showAddLayerTray) return null;
+
+    return (
+      <View style={styles.addLayerTray}>
+        <View style={styles.addLayerActions}>
+          <TouchableOpacity style={styles.addLayerAction} onPress={handlePickPhoto}>
+            <Ionicons name="images-outline" size={22} color="white" />
+            <Text style={styles.addLayerActionText}>Photos</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addLayerAction} onPress={handlePasteImage}>
+            <Ionicons name="clipboard-outline" size={22} color="white" />
+            <Text style={styles.addLayerActionText}>Paste</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addLayerClose} onPress={() => setShowAddLayerTray(false)}>
+            <Ionicons name="close" size={22} color="white" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.stickerRow}>
+          {StickerPack.map(sticker => (
+            <TouchableOpacity
+              key={sticker.id}
+              style={styles.stickerOption}
+              onPress={() => addImageLayer({
+                kind: 'sticker',
+                stickerId: sticker.id,
+                width: STICKER_SIZE,
+                height: STICKER_SIZE,
+              })}
+            >
+              <Text style={styles.stickerOptionText}>{sticker.emoji}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  const renderBackgroundTab = (tab: typeof backgroundTab, label: string) => (
+    <TouchableOpacity
+      key={tab}
+      style={[styles.toggleButton, backgroundTab === tab && styles.toggleButtonActive]}
+      onPress={() => setBackgroundTab(tab)}
+    >
+      <Text style={styles.toggleButtonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderGradientEditor = () => {
+    const stops = backgroundGradient.length > 0 ? backgroundGradient : [backgroundColor, backgroundColor];
+    const stopIndex = Math.min(selectedStopIndex, stops.length - 1);
+
+    return (
+      <>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.backgroundRow}>
+          {GradientPresets.map(preset => (
+            <TouchableOpacity
+              key={preset.name}
+              onPress={() => {
+                setSelectedStopIndex(0);
+                updateBackground({ gradient: preset.colors, gradientAngle: preset.angle });
+              }}
+            >
+              <CanvasBackgroundView
+                background={{ color: preset.colors[0], gradient: preset.colors, gradientAngle: preset.angle }}
+                ratio={1}
+                style={styles.backgroundSwatch}
+              />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {/* Custom stops - tap one to edit it with the picker */}
+        <View style={styles.backgroundRow}>
+          {stops.map((color, index) => (
+            <TouchableOpacity
+              key={index}
+              style={[styles.effectSwatch, { backgroundColor: color }, index === stopIndex && styles.colorSwatchActive]}
+              onPress={() => setSelectedStopIndex(index)}
+            />
+          ))}
+          <TouchableOpacity
+            style={styles.backgroundIconButton}
+            disabled={stops.length >= MAX_GRADIENT_STOPS}
+            onPress={() => {
+              setSelectedStopIndex(stops.length);
+              updateBackground({ gradient: [...stops, stops[stops.length - 1]] });
+            }}
+          >
+            <Ionicons name="add" size={20} color={stops.length >= MAX_GRADIENT_STOPS ? 'rgba(255,255,255,0.3)' : 'white'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.backgroundIconButton}
+            disabled={stops.length <= MIN_GRADIENT_STOPS}
+            onPress={() => {
+              setSelectedStopIndex(Math.max(0, stopIndex - 1));
+              updateBackground({ gradient: stops.filter((_, index) => index !== stopIndex) });
+            }}
+          >
+            <Ionicons name="remove" size={20} color={stops.length <= MIN_GRADIENT_STOPS ? 'rgba(255,255,255,0.3)' : 'white'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.backgroundIconButton}
+            onPress={() => updateBackground({ gradient: stops, gradientAngle: (backgroundGradientAngle + 45) % 360 })}
+          >
+            <Ionicons
+              name="arrow-down"
+              size={18}
+              color="white"
+              style={{ transform: [{ rotate: `${backgroundGradientAngle - 180}deg` }] }}
+            />
+          </TouchableOpacity>
+        </View>
+
+        <ColorPicker
+          color={stops[stopIndex]}
+          width={screenWidth - 40}
+          onChange={color => updateBackground({ gradient: stops.map((stop, index) => (index === stopIndex ? color : stop)) })}
+        />
+      </>
+    );
+  };
+
+  const renderPatternEditor = () => (
+    <>
+      <View style={styles.backgroundRow}>
+        {renderOption('off', 'Off', !backgroundPattern, () => updateBackground({ pattern: undefined }))}
+        {PatternKinds.map(({ kind, name, size }) =>
+          renderOption(kind, name, backgroundPattern?.kind === kind, () =>
+            updateBackground({
+              pattern: {
+                kind,
+                size,
+                color: backgroundPattern?.color || '#1B1B1B',
+                // Fresh noise each time it's picked; kept fixed after that so the post matches the preview
+                seed: Math.floor(Math.random() * 2 ** 31),
+              },
+            })
+          )
+        )}
+      </View>
+      {backgroundPattern && (
+        <ColorPicker
+          color={backgroundPattern.color}
+          width={screenWidth - 40}
+          onChange={color => updateBackground({ pattern: { ...backgroundPattern, color } })}
+        />
+      )}
+    </>
+  );
+
+  // Records an edit to the quote as one undo step, merging rapid taps on the same control
+  const updateRepost = (after: Partial<RepostGeometry>, coalesceKey?: string) => {
+    if (!repostGeometry) return;
+    const before = Object.fromEntries(
+      Object.keys(after).map(key => [key, repostGeometry[key as keyof RepostGeometry]]),
+    ) as Partial<RepostGeometry>;
+    history.execute({ type: 'update_repost', before, after }, coalesceKey);
+  };
+
+  // Back to the whole original, keeping its centre and scale
+  const uncropRepost = () => {
+    if (!repostGeometry) return;
+    const { width, height, crop } = repostGeometry;
+    updateRepost({
+      width: width / (crop.right - crop.left),
+      height: height / (crop.bottom - crop.top),
+      crop: FULL_REPOST_CROP,
+    });
+  };
+
+  const renderRepostTray = () => {
+    if (!showRepostTray || !repostGeometry) return null;
+
+    return (
+      <View style={styles.addLayerTray}>
+        <View style={styles.addLayerActions}>
+          <TouchableOpacity
+            style={[styles.toggleButton, isCroppingRepost && styles.toggleButtonActive]}
+            onPress={() => setIsCroppingRepost(prev => !prev)}
+          >
+            <Text style={styles.toggleButtonText}>Crop</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.toggleButton} onPress={uncropRepost}>
+            <Text style={styles.toggleButtonText}>Uncrop</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addLayerClose} onPress={closeRepostTray}>
+            <Ionicons name="close" size={22} color="white" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.backgroundEditor}>
+          {renderEffectRow(
+            'Opacity',
+            REPOST_OPACITIES.map(opacity =>
+              renderOption(
+                `opacity-${opacity}`,
+                `${Math.round(opacity * 100)}%`,
+                repostGeometry.opacity === opacity,
+                () => updateRepost({ opacity }, 'repost-opacity'),
+              ),
+            ),
+          )}
+        </View>
+      </View>
     );
+  };
 
-    if (backgroundGradient.length > 0) {
-      return (
-        <LinearGradient 
-          colors={backgroundGradient as [string, string, ...string[]]}
-          style={styles.fullScreenCanvas}
-        >
-          {canvasChildren}
-        </LinearGradient>
-      );
-    }
+  const renderBackgroundTray = () => {
+    if (!showBackgroundTray) return null;
 
     return (
-      <View style={[styles.fullScreenCanvas, { backgroundColor }]}>
-        {canvasChildren}
+      <View style={styles.addLayerTray}>
+        <View style={styles.addLayerActions}>
+          {renderBackgroundTab('color', 'Color')}
+          {renderBackgroundTab('gradient', 'Gradient')}
+          {renderBackgroundTab('pattern', 'Pattern')}
+          <TouchableOpacity style={styles.addLayerClose} onPress={() => setShowBackgroundTray(false)}>
+            <Ionicons name="close" size={22} color="white" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.backgroundEditor}>
+          {backgroundTab === 'color' && (
+            <>
+              <View style={styles.backgroundRow}>
+                {BackgroundColors.map(color => (
+                  <TouchableOpacity
+                    key={color}
+                    style={[
+                      styles.effectSwatch,
+                      { backgroundColor: color },
+                      backgroundGradient.length === 0 && backgroundColor === color && styles.colorSwatchActive,
+                    ]}
+                    onPress={() => updateBackground({ color, gradient: [] })}
+                  />
+                ))}
+              </View>
+              <ColorPicker
+                color={backgroundColor}
+                width={screenWidth - 40}
+                onChange={color => updateBackground({ color, gradient: [] })}
+              />
+            </>
+          )}
+          {backgroundTab === 'gradient' && renderGradientEditor()}
+          {backgroundTab === 'pattern' && renderPatternEditor()}
+        </View>
       </View>
     );
   };
 
-  // Instagram Create Mode UI Components
-  const renderTopMenu = () => {
-    
+  const renderBrushToolIcon = (tool: BrushTool, color: string) => {
+    switch (tool) {
+      case 'pen':
+        return <Ionicons name="pencil" size={20} color={color} />;
+      case 'marker':
+        return <MaterialCommunityIcons name="marker" size={20} color={color} />;
+      case 'neon':
+        return <Ionicons name="flash" size={20} color={color} />;
+      case 'eraser':
+        return <MaterialCommunityIcons name="eraser" size={20} color={color} />;
+    }
+  };
+
+  const renderDrawingToolbar = () => {
+    if (!isDrawing) return null;
+
     return (
-      <View style={styles.topMenu}>
-        {/* Left - Close Button */}
-        <TouchableOpacity style={styles.topMenuButton} onPress={onClose}>
-          <Ionicons name="close" size={24} color="white" />
-        </TouchableOpacity>
-        
-        {/* Right - Controls */}
-        <View style={styles.topMenuRight}>
-          {/* Background Color Cycle */}
-          <TouchableOpacity style={styles.topMenuButton} onPress={cycleBackgroundColor}>
-            <View style={[styles.backgroundPreview, { backgroundColor }]} />
-          </TouchableOpacity>
-          
-          {/* Text Button */}
-          <TouchableOpacity style={styles.topMenuButton} onPress={createNewTextElement}>
-            <Text style={styles.topMenuText}>Text</Text>
-          </TouchableOpacity>
-          
-          {/* Placeholder buttons */}
-          <TouchableOpacity style={styles.topMenuButton} disabled>
-            <Ionicons name="image" size={20} color="rgba(255,255,255,0.5)" />
-          </TouchableOpacity>
-          
-          <TouchableOpacity style={styles.topMenuButton} disabled>
-            <Ionicons name="brush" size={20} color="rgba(255,255,255,0.5)" />
+      <View style={styles.drawingToolbar}>
+        {/* Colours don't apply to the eraser */}
+        {brushTool !== 'eraser' && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.colorScrollView}
+            contentContainerStyle={styles.drawingColorRow}
+          >
+            {Colors.postColors.map((color, index) => (
+              <TouchableOpacity
+                key={index}
+                style={[styles.colorSwatch, { backgroundColor: color }, brushColor === color && styles.colorSwatchActive]}
+                onPress={() => setBrushColor(color)}
+                activeOpacity={0.8}
+              />
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={[styles.bottomControlBar, styles.drawingControlBar]}>
+          {(Object.keys(BrushTools) as BrushTool[]).map(tool => (
+            <TouchableOpacity
+              key={tool}
+              style={[styles.controlOption, brushTool === tool && styles.controlOptionActive]}
+              onPress={() => setBrushTool(tool)}
+            >
+              {renderBrushToolIcon(tool, brushTool === tool ? Colors.accent : 'white')}
+            </TouchableOpacity>
+          ))}
+
+          {BrushTools[brushTool].widths.map((width, index) => (
+            <TouchableOpacity
+              key={`width-${index}`}
+              style={[styles.controlOption, brushWidthIndex === index && styles.controlOptionActive]}
+              onPress={() => setBrushWidthIndex(index)}
+            >
+              <View
+                style={[
+                  styles.brushWidthDot,
+                  {
+                    width: 6 + index * 6,
+                    height: 6 + index * 6,
+                    backgroundColor: brushTool === 'eraser' ? 'white' : brushColor,
+                  },
+                ]}
+              />
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.drawingDoneButton} onPress={toggleDrawingMode}>
+            <Text style={styles.drawingDoneText}>Done</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -723,17 +1876,17 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
           </TouchableOpacity>
           
           <TouchableOpacity 
-            style={[styles.controlOption, getCurrentTextElement()?.backgroundMode !== 'off' && styles.controlOptionActive]}
-            onPress={() => {
-              const current = getCurrentTextElement();
-              if (current) {
-                const nextMode = current.backgroundMode === 'off' ? 'white' : 
-                               current.backgroundMode === 'white' ? 'inverted' : 'off';
-                updateTextElement(current.id, { backgroundMode: nextMode });
-              }
-            }}
+            style={[styles.controlOption, activeControlOption === 'effects' && styles.controlOptionActive]}
+            onPress={() => setActiveControlOption('effects')}
+          >
+            <Ionicons name="sparkles" size={20} color={activeControlOption === 'effects' ? Colors.accent : 'white'} />
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.controlOption, activeControlOption === 'background' && styles.controlOptionActive]}
+            onPress={() => setActiveControlOption('background')}
           >
-            <Ionicons name="color-fill" size={20} color={getCurrentTextElement()?.backgroundMode !== 'off' ? Colors.accent : 'white'} />
+            <Ionicons name="color-fill" size={20} color={activeControlOption === 'background' ? Colors.accent : 'white'} />
           </TouchableOpacity>
         </View>
       </View>
@@ -742,6 +1895,9 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
 
   const renderScaleSlider = () => {
     if (!isEditingText) return null;
+    // Each font has its own range so faces of very different widths land at similar sizes
+    const { minSize, maxSize } = getFont(getCurrentTextElement()?.fontFamily).metrics;
+    const sizeProgress = Math.max(0, Math.min(1, (currentFontSize - minSize) / (maxSize - minSize)));
     
     return (
       <View style={styles.scaleSliderContainer}>
@@ -752,7 +1908,7 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
             const progress = index / 19; // 0 to 1
             const width = 2 + (progress * 8); // 2px to 10px width (taper effect)
             const opacity = 0.3 + (progress * 0.4); // Fade effect
-            const isActive = ((currentFontSize - 8) / (72 - 8)) >= progress;
+            const isActive = sizeProgress >= progress;
             
             return (
               <View
@@ -776,10 +1932,8 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
           onGestureEvent={(event) => {
             const { translationY } = event.nativeEvent;
             const sliderHeight = 200; // Height of the slider
-            const minFontSize = 8;  // Much wider range
-            const maxFontSize = 72; // Much wider range
             const progress = Math.max(0, Math.min(1, 1 - (translationY / sliderHeight)));
-            const newFontSize = minFontSize + (progress * (maxFontSize - minFontSize));
+            const newFontSize = minSize + (progress * (maxSize - minSize));
             setCurrentFontSize(newFontSize);
           }}
         >
@@ -788,7 +1942,7 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
               style={[
                 styles.scaleSliderHandle,
                 { 
-                  bottom: `${((currentFontSize - 8) / (72 - 8)) * 85}%` // Convert 8-72 range to 0-85% position
+                  bottom: `${sizeProgress * 85}%` // Convert font range to 0-85% position
                 }
               ]}
             />
@@ -825,36 +1979,44 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
             {renderColorSelection(currentElement)}
           </>
         )}
+        {activeControlOption === 'effects' && renderEffectsSelection(currentElement)}
+        {activeControlOption === 'background' && renderBackgroundSelection(currentElement)}
       </View>
     );
   };
 
-  const renderFontSelection = (element: TextElement) => (
+  const renderFontSelection = (element: ComposerTextElement) => (
     <ScrollView 
       horizontal 
       showsHorizontalScrollIndicator={false} 
       style={styles.fontScrollView}
       keyboardShouldPersistTaps="always"
     >
-      {Object.entries(FontChoices).map(([key, font]) => (
-        <TouchableOpacity
-          key={key}
-          style={[styles.fontOption, element.fontFamily === key && styles.fontOptionActive]}
-          onPress={() => {
-            console.log('🔤 Font selected:', key, 'for element:', element.id);
-            updateTextElement(element.id, { fontFamily: key as 'arial-black' | 'crimson-text' | 'papyrus' | 'impact' });
-          }}
-          activeOpacity={0.7}
-        >
-          <Text style={[styles.fontOptionText, { fontFamily: font.fontFamily, fontWeight: font.fontWeight as any }]}>
-            {font.name || key}
-          </Text>
-        </TouchableOpacity>
-      ))}
+      {FontIds.map(fontId => {
+        const font = FontRegistry[fontId];
+        return (
+          <TouchableOpacity
+            key={fontId}
+            style={[styles.fontOption, element.fontFamily === fontId && styles.fontOptionActive]}
+            onPress={() => {
+              console.log('🔤 Font selected:', fontId, 'for element:', element.id);
+              updateTextElement(element.id, { fontFamily: fontId }, `font-${element.id}`);
+              // Keep the size inside the new font's slider range
+              const { minSize, maxSize } = font.metrics;
+              setCurrentFontSize(size => Math.max(minSize, Math.min(maxSize, size)));
+            }}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.fontOptionText, { fontFamily: font.fontFamily }]}>
+              {font.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
     </ScrollView>
   );
 
-  const renderColorSelection = (element: TextElement) => (
+  const renderColorSelection = (element: ComposerTextElement) => (
     <ScrollView 
       horizontal 
       showsHorizontalScrollIndicator={false} 
@@ -867,7 +2029,7 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
           style={[styles.colorSwatch, { backgroundColor: color }, element.color === color && styles.colorSwatchActive]}
           onPress={() => {
             console.log('🎨 Color selected:', color, 'for element:', element.id);
-            updateTextElement(element.id, { color });
+            updateTextElement(element.id, { color }, `color-${element.id}`);
           }}
           activeOpacity={0.8}
         />
@@ -875,30 +2037,105 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
     </ScrollView>
   );
 
-  const renderGlowSelection = (element: TextElement) => (
-    <View style={styles.toggleContainer}>
-      <Text style={styles.toggleText}>Glow Effect</Text>
-      <TouchableOpacity 
-        style={[styles.toggleButton, element.hasBackground && styles.toggleButtonActive]}
-        onPress={() => updateTextElement(element.id, { hasBackground: !element.hasBackground })}
-      >
-        <Text style={styles.toggleButtonText}>{element.hasBackground ? 'ON' : 'OFF'}</Text>
-      </TouchableOpacity>
-    </View>
+  // Effects tweaks made in quick succession collapse into one undo step
+  const updateTextEffects = (element: ComposerTextElement, effects: Partial<TextEffects>) => {
+    updateTextElement(element.id, { effects: { ...element.effects, ...effects } }, `effects-${element.id}`);
+  };
+
+  const renderOption = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.toggleButton, styles.effectOption, isActive && styles.toggleButtonActive]}
+      onPress={onPress}
+    >
+      <Text style={styles.toggleButtonText}>{label}</Text>
+    </TouchableOpacity>
   );
 
-  const renderBackgroundSelection = (element: TextElement) => (
-    <View style={styles.toggleContainer}>
-      <Text style={styles.toggleText}>Text Background</Text>
-      <TouchableOpacity 
-        style={[styles.toggleButton, element.hasBackground && styles.toggleButtonActive]}
-        onPress={() => updateTextElement(element.id, { hasBackground: !element.hasBackground })}
-      >
-        <Text style={styles.toggleButtonText}>{element.hasBackground ? 'ON' : 'OFF'}</Text>
-      </TouchableOpacity>
+  const renderEffectSwatches = (selected: string | undefined, onSelect: (color: string) => void) =>
+    EFFECT_COLORS.map(color => (
+      <TouchableOpacity
+        key={color}
+        style={[styles.effectSwatch, { backgroundColor: color }, selected === color && styles.colorSwatchActive]}
+        onPress={() => onSelect(color)}
+      />
+    ));
+
+  const renderEffectRow = (label: string, children: React.ReactNode) => (
+    <View style={styles.effectRow}>
+      <Text style={styles.effectLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="always">
+        {children}
+      </ScrollView>
     </View>
   );
 
+  const renderEffectsSelection = (element: ComposerTextElement) => {
+    const { outline, glow, shadow } = element.effects || {};
+    return (
+      <View>
+        {renderEffectRow('Outline', (
+          <>
+            {renderOption('off', 'Off', !outline, () => updateTextEffects(element, { outline: undefined }))}
+            {OutlineWidths.map((width, index) =>
+              renderOption(`width-${width}`, ['Thin', 'Medium', 'Thick'][index], outline?.width === width, () =>
+                updateTextEffects(element, { outline: { color: outline?.color || '#000000', width } })
+              )
+            )}
+            {outline && renderEffectSwatches(outline.color, color => updateTextEffects(element, { outline: { ...outline, color } }))}
+          </>
+        ))}
+        {renderEffectRow('Glow', (
+          <>
+            {renderOption('off', 'Off', !glow, () => updateTextEffects(element, { glow: undefined }))}
+            {renderEffectSwatches(glow?.color, color => updateTextEffects(element, { glow: { color, radius: GlowRadius } }))}
+          </>
+        ))}
+        {renderEffectRow('Shadow', (
+          <>
+            {renderOption('off', 'Off', !shadow, () => updateTextEffects(element, { shadow: undefined }))}
+            {renderOption('soft', 'Soft', shadow?.blur === ShadowPresets.soft.blur, () =>
+              updateTextEffects(element, { shadow: ShadowPresets.soft })
+            )}
+            {renderOption('hard', 'Hard', shadow?.blur === ShadowPresets.hard.blur, () =>
+              updateTextEffects(element, { shadow: ShadowPresets.hard })
+            )}
+          </>
+        ))}
+      </View>
+    );
+  };
+
+  const renderBackgroundSelection = (element: ComposerTextElement) => {
+    const shape = element.backgroundShape || 'box';
+    return (
+      <View>
+        {renderEffectRow('Fill', (
+          <>
+            {renderOption('off', 'Off', element.backgroundMode === 'off', () =>
+              updateTextElement(element.id, { backgroundMode: 'off' })
+            )}
+            {renderOption('white', 'White', element.backgroundMode === 'white', () =>
+              updateTextElement(element.id, { backgroundMode: 'white' })
+            )}
+            {renderOption('inverted', 'Color', element.backgroundMode === 'inverted', () =>
+              updateTextElement(element.id, { backgroundMode: 'inverted' })
+            )}
+          </>
+        ))}
+        {renderEffectRow('Shape', BackgroundShapes.map(option =>
+          renderOption(option.shape, option.name, shape === option.shape, () =>
+            // Picking a shape with the fill off turns it on, otherwise nothing would change
+            updateTextElement(element.id, {
+              backgroundShape: option.shape,
+              ...(element.backgroundMode === 'off' && { backgroundMode: 'white' }),
+            })
+          )
+        ))}
+      </View>
+    );
+  };
+
   return (
     <View style={styles.container}>
       <StatusBar hidden />
@@ -922,11 +2159,26 @@ export default function PostComposer({ onPost, onClose, repostData }: Props) {
       {/* Scale Slider (when editing text) */}
       {renderScaleSlider()}
       
+      {/* Brush tools (when drawing) */}
+      {renderDrawingToolbar()}
+      
+      {/* Photo / sticker picker */}
+      {renderAddLayerTray()}
+      
+      {/* Colour, gradient and pattern editor */}
+      {renderBackgroundTray()}
+      
+      {/* Quoted post crop and opacity */}
+      {renderRepostTray()}
+      
+      {/* Feed preview before posting */}
+      {renderFeedPreview()}
+      
         {/* Post Button */}
-        {!isEditingText && (
+        {!isEditingText && !isDrawing && !showAddLayerTray && !showBackgroundTray && !showRepostTray && !previewPayload && (
           <TouchableOpacity 
             style={styles.postButton} 
-            onPress={handlePost}
+            onPress={openPreview}
             disabled={isPosting}
           >
             {isPosting ? (
@@ -959,7 +2211,7 @@ const styles = StyleSheet.create({
     right: 0,
     bottom: 0,
     backgroundColor: 'rgba(0,0,0,0.18)', // Lighter so you can still "feel" the repost
-    zIndex: 13, // Below canvas (10) but above background
+    zIndex: 13, // Above the quote, drawings and photos, below text (15)
   },
   
   // Top Menu (when not editing)
@@ -970,13 +2222,19 @@ const styles = StyleSheet.create({
     right: 20,
     flexDirection: 'row',
     justifyContent: 'space-between',
-    alignItems: 'center',
+    alignItems: 'flex-start',
     zIndex: 100,
   },
-  topMenuRight: {
+  topMenuLeft: {
     flexDirection: 'row',
     alignItems: 'center',
-    gap: 15,
+    gap: 10,
+  },
+  // Tools stack down the right edge so the row leaves room for undo/redo
+  topMenuRight: {
+    flexDirection: 'column',
+    alignItems: 'center',
+    gap: 12,
   },
   topMenuButton: {
     width: 44,
@@ -986,6 +2244,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  topMenuButtonActive: {
+    backgroundColor: Colors.accent,
+  },
   topMenuText: {
     color: 'white',
     fontSize: 16,
@@ -1029,6 +2290,111 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255,26,26,0.2)',
   },
   
+  // Add layer tray (photos, paste, stickers)
+  addLayerTray: {
+    position: 'absolute',
+    bottom: 40,
+    left: 0,
+    right: 0,
+    paddingVertical: 12,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    zIndex: 200,
+  },
+  addLayerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    gap: 12,
+    marginBottom: 12,
+  },
+  addLayerAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  addLayerActionText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  addLayerClose: {
+    marginLeft: 'auto',
+    padding: 8,
+  },
+  stickerRow: {
+    paddingHorizontal: 20,
+    gap: 12,
+  },
+  stickerOption: {
+    width: 56,
+    height: 56,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stickerOptionText: {
+    fontSize: 32,
+  },
+  
+  // Background editor (shares the add layer tray's frame)
+  backgroundEditor: {
+    paddingHorizontal: 20,
+  },
+  backgroundRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  backgroundSwatch: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  backgroundIconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  
+  // Drawing toolbar (brush mode)
+  drawingToolbar: {
+    position: 'absolute',
+    bottom: 50,
+    left: 0,
+    right: 0,
+    zIndex: 200,
+  },
+  drawingControlBar: {
+    marginBottom: 0,
+  },
+  drawingColorRow: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  brushWidthDot: {
+    borderRadius: 10,
+  },
+  drawingDoneButton: {
+    backgroundColor: Colors.accent,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 15,
+  },
+  drawingDoneText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  
   // Floating Selection Menu (above control bar)
   floatingSelectionMenu: {
     backgroundColor: 'transparent',
@@ -1076,7 +2442,31 @@ const styles = StyleSheet.create({
     borderWidth: 3,
   },
   
-  // Toggle Controls (Glow/Background)
+  // Effects and background panels
+  effectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  effectLabel: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+    width: 64,
+  },
+  effectOption: {
+    marginRight: 8,
+  },
+  effectSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginRight: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  
+  // Toggle Controls
   toggleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1122,6 +2512,59 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  postButtonInline: {
+    backgroundColor: Colors.accent,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 25,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  
+  // Feed preview
+  captureCanvas: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    zIndex: 299,
+  },
+  previewOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#000',
+    paddingTop: 60,
+    paddingBottom: 40,
+    zIndex: 300,
+  },
+  previewTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  previewScroll: {
+    flex: 1,
+  },
+  previewScrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  previewActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  previewEditButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  previewEditText: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   
   // Canvas and Text Elements
   canvasContainer: {
@@ -1142,16 +2585,19 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     zIndex: 15,
   },
+  textGestureLayer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   textElement: {
     flex: 1,
     alignItems: 'center',
     justifyContent: 'center',
     position: 'relative',
     minWidth: 50, // Much smaller minimum
-    maxWidth: screenWidth - 40, // Leave some margin
+    maxWidth: (CANVAS_WIDTH - TEXT_MARGIN * 2) * viewport.scale, // Wraps where the layout engine does
     minHeight: 50,
-    justifyContent: 'center',
-    alignItems: 'center',
   },
   textInput: {
     minWidth: 50,
@@ -1163,12 +2609,54 @@ const styles = StyleSheet.create({
     zIndex: 15,
   },
   // Repost image draws above background, below text
-  repostImage: {
-    ...StyleSheet.absoluteFillObject,
+  cropShade: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  },
+  snapGuideVertical: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 1,
+    marginLeft: -0.5,
+    backgroundColor: Colors.accent,
+  },
+  snapGuideHorizontal: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    marginTop: -0.5,
+    backgroundColor: Colors.accent,
+  },
+  trashZone: {
+    position: 'absolute',
+    bottom: TRASH_ZONE_BOTTOM,
+    left: (screenWidth - TRASH_ZONE_SIZE) / 2,
+    width: TRASH_ZONE_SIZE,
+    height: TRASH_ZONE_SIZE,
+    borderRadius: TRASH_ZONE_SIZE / 2,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 40,
+  },
+  trashZoneActive: {
+    backgroundColor: '#FF3B30',
+    borderColor: 'white',
+    transform: [{ scale: 1.2 }],
+  },
+  // The logical canvas as it sits on this screen
+  canvasFrame: {
     position: 'absolute',
-    zIndex: 12,
-    width: '100%',
-    height: '100%',
+    left: viewport.offsetX,
+    top: viewport.offsetY,
+    width: viewport.width,
+    height: viewport.height,
   },
   
   // Scale Slider (Instagram-style)
@@ -0,0 +1,151 @@
+import React from 'react';
+import { View, Image, StyleSheet } from 'react-native';
+import { ComposerImageLayer, PostCreate } from '../types';
+import { layoutPost, TextLayout } from '../services/layoutEngine';
+import CanvasBackgroundView from './CanvasBackgroundView';
+import DrawingLayerView from './DrawingLayerView';
+import { ImageLayerContent, RepostLayerContent } from './ImageLayerView';
+import StyledText from './StyledText';
+
+interface Props {
+  payload: PostCreate;
+  imageLayers: ComposerImageLayer[]; // The composer's layers, in payload order, for their image sources
+  width: number;
+  fullCanvas?: boolean; // The whole canvas rather than the feed's crop, for capturing
+}
+
+/**
+ * The post as it will appear in the feed, drawn from the layout engine rather than the
+ * composer's own views - line breaks, boxes and the crop are exactly what the server gets.
+ */
+export default function PostPreview({ payload, imageLayers, width, fullCanvas }: Props) {
+  const layout = layoutPost(payload);
+  const ratio = width / layout.canvas.width;
+  const top = fullCanvas ? 0 : layout.top_y * ratio;
+  const height = fullCanvas ? layout.canvas.height * ratio : (layout.bottom_y - layout.top_y) * ratio;
+
+  const renderText = ({ element, width: boxWidth, height: boxHeight, lineHeight, box, lines }: TextLayout, index: number) => {
+    const background = element.effects?.background;
+    // The engine's box is drawn here, so StyledText only draws the glyphs and their effects
+    const glyphs = { ...element, effects: { ...element.effects, background: undefined } };
+
+    return (
+      <View
+        key={index}
+        style={[
+          styles.textBox,
+          {
+            left: (element.x - boxWidth / 2) * ratio,
+            top: (element.y - boxHeight / 2) * ratio,
+            width: boxWidth * ratio,
+            height: boxHeight * ratio,
+            transform: [{ rotate: `${element.rotation}deg` }, { scale: element.scale }],
+          },
+        ]}
+      >
+        {background && background.shape !== 'highlight' && (
+          <View style={[StyleSheet.absoluteFill, { backgroundColor: background.color, borderRadius: box.radius * ratio }]} />
+        )}
+        {lines.map((line, lineIndex) => (
+          <View
+            key={lineIndex}
+            style={[
+              styles.line,
+              { left: line.x * ratio, top: line.y * ratio, width: line.width * ratio, height: lineHeight * ratio },
+              background?.shape === 'highlight' && { backgroundColor: background.color },
+            ]}
+          >
+            <StyledText element={glyphs} text={line.text} ratio={ratio} numberOfLines={1} />
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  // Reposts from before the quote was a layer filled the canvas behind everything
+  const renderRepost = ({ screenshot_uri, repost_geometry: geometry }: NonNullable<PostCreate['repost_data']>) => {
+    if (!geometry) {
+      return <Image source={{ uri: screenshot_uri }} style={styles.repostImage} resizeMode="contain" />;
+    }
+    return (
+      <View
+        style={[
+          styles.layer,
+          {
+            left: (geometry.x - geometry.width / 2) * ratio,
+            top: (geometry.y - geometry.height / 2) * ratio,
+            width: geometry.width * ratio,
+            height: geometry.height * ratio,
+            transform: [{ rotate: `${geometry.rotation}deg` }, { scale: geometry.scale }],
+          },
+        ]}
+      >
+        <RepostLayerContent uri={screenshot_uri} geometry={geometry} />
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.frame, { width, height }]}>
+      <CanvasBackgroundView
+        background={{
+          color: payload.background_color,
+          gradient: payload.background_gradient || [],
+          gradientAngle: payload.background_gradient_angle ?? 180,
+          pattern: payload.background_pattern,
+        }}
+        ratio={ratio}
+        style={[styles.canvas, { top: -top, width, height: layout.canvas.height * ratio }]}
+      >
+        {payload.repost_data && renderRepost(payload.repost_data)}
+        <DrawingLayerView
+          strokes={payload.drawing_layers?.flatMap(layer => layer.strokes) || []}
+          canvasWidth={layout.canvas.width}
+          canvasHeight={layout.canvas.height}
+        />
+        {imageLayers.map(layer => (
+          <View
+            key={layer.id}
+            style={[
+              styles.layer,
+              {
+                left: (layer.x - layer.width / 2) * ratio,
+                top: (layer.y - layer.height / 2) * ratio,
+                width: layer.width * ratio,
+                height: layer.height * ratio,
+                transform: [{ rotate: `${layer.rotation}deg` }, { scale: layer.scale }],
+              },
+            ]}
+          >
+            <ImageLayerContent layer={layer} height={layer.height * ratio} />
+          </View>
+        ))}
+        {layout.texts.map(renderText)}
+      </CanvasBackgroundView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  frame: {
+    overflow: 'hidden',
+  },
+  canvas: {
+    position: 'absolute',
+    left: 0,
+  },
+  repostImage: {
+    ...StyleSheet.absoluteFillObject,
+    opacity: 0.7,
+  },
+  layer: {
+    position: 'absolute',
+  },
+  textBox: {
+    position: 'absolute',
+  },
+  line: {
+    position: 'absolute',
+    justifyContent: 'center',
+  },
+});
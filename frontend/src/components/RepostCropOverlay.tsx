@@ -0,0 +1,135 @@
+import React, { useRef } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { PanGestureHandler, State } from 'react-native-gesture-handler';
+import { Colors } from '../constants/colors';
+import { CanvasViewport, CropEdge, cropRepostEdge, toScreenPoint } from '../services/canvasLayout';
+import { RepostGeometry } from '../types';
+
+interface Props {
+  geometry: RepostGeometry;
+  viewport: CanvasViewport;
+  onLiveChange: (geometry: RepostGeometry) => void;                 // Every drag frame
+  onCropEnd: (before: RepostGeometry, after: RepostGeometry) => void; // Once the handle is let go
+}
+
+const HANDLE_SIZE = 28;
+
+// Which way each edge's midpoint lies from the centre, before rotation
+const EDGE_DIRECTIONS: Record<CropEdge, { x: number; y: number }> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 },
+};
+
+/**
+ * Outline and edge handles for cropping the quoted post. Handles sit upright in screen
+ * space, so drags are screen translations projected onto the layer's rotated axes.
+ */
+export default function RepostCropOverlay({ geometry, viewport, onLiveChange, onCropEnd }: Props) {
+  const dragStart = useRef<RepostGeometry | null>(null);
+  const latest = useRef(geometry);
+  latest.current = geometry;
+
+  const radians = (geometry.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  // Where an edge's midpoint is on screen
+  const getHandlePosition = (edge: CropEdge) => {
+    const direction = EDGE_DIRECTIONS[edge];
+    const halfWidth = (geometry.width * geometry.scale) / 2;
+    const halfHeight = (geometry.height * geometry.scale) / 2;
+    const localX = direction.x * halfWidth;
+    const localY = direction.y * halfHeight;
+    return toScreenPoint(viewport, {
+      x: geometry.x + localX * cos - localY * sin,
+      y: geometry.y + localX * sin + localY * cos,
+    });
+  };
+
+  const handleStateChange = (event: any) => {
+    const { state } = event.nativeEvent;
+    if (state === State.BEGAN) {
+      dragStart.current = latest.current;
+    }
+    if (state === State.END || state === State.CANCELLED || state === State.FAILED) {
+      const start = dragStart.current;
+      dragStart.current = null;
+      if (start && start !== latest.current) onCropEnd(start, latest.current);
+    }
+  };
+
+  const handleDrag = (edge: CropEdge) => (event: any) => {
+    const start = dragStart.current;
+    if (!start || event.nativeEvent.state !== State.ACTIVE) return;
+
+    const { translationX, translationY } = event.nativeEvent;
+    const startRadians = (start.rotation * Math.PI) / 180;
+    // The drag along the layer's own x or y axis, in unscaled canvas units
+    const horizontal = edge === 'left' || edge === 'right';
+    const axis = horizontal
+      ? { x: Math.cos(startRadians), y: Math.sin(startRadians) }
+      : { x: -Math.sin(startRadians), y: Math.cos(startRadians) };
+    const along = (translationX * axis.x + translationY * axis.y) / viewport.scale / start.scale;
+    onLiveChange(cropRepostEdge(start, edge, along));
+  };
+
+  const width = geometry.width * viewport.scale;
+  const height = geometry.height * viewport.scale;
+  const center = toScreenPoint(viewport, geometry);
+
+  return (
+    <>
+      <View
+        pointerEvents="none"
+        style={[
+          styles.outline,
+          {
+            left: center.x - width / 2,
+            top: center.y - height / 2,
+            width,
+            height,
+            transform: [{ rotate: `${geometry.rotation}deg` }, { scale: geometry.scale }],
+          },
+        ]}
+      />
+      {(Object.keys(EDGE_DIRECTIONS) as CropEdge[]).map(edge => {
+        const position = getHandlePosition(edge);
+        return (
+          <PanGestureHandler
+            key={edge}
+            minDist={0}
+            onGestureEvent={handleDrag(edge)}
+            onHandlerStateChange={handleStateChange}
+          >
+            <View
+              style={[
+                styles.handle,
+                { left: position.x - HANDLE_SIZE / 2, top: position.y - HANDLE_SIZE / 2 },
+              ]}
+            />
+          </PanGestureHandler>
+        );
+      })}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  outline: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: Colors.accent,
+    borderStyle: 'dashed',
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: 'white',
+    borderWidth: 3,
+    borderColor: Colors.accent,
+  },
+});
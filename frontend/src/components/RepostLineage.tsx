@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TouchableOpacity, Image, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/colors';
+import { Post } from '../types';
+import {
+  fetchRepostChain,
+  fetchReposts,
+  RepostChain,
+  RepostChainEnd,
+  walkRepostChain,
+} from '../services/repostChain';
+
+interface Props {
+  post: Post;
+  onOpenPost: (post: Post) => void;
+}
+
+// Deeper links stop indenting so long chains stay readable
+const MAX_INDENT_LEVEL = 4;
+
+// Shown under a chain that didn't reach the post everything started from
+const CHAIN_END_NOTES: Partial<Record<RepostChainEnd, string>> = {
+  depth: 'Older reposts not shown',
+  cycle: 'This chain loops back on itself',
+  missing: 'The original post is no longer available',
+};
+
+/**
+ * Where a post came from and where it went: the chain of posts it quotes, nearest first,
+ * and the posts that quote it.
+ */
+export default function RepostLineage({ post, onOpenPost }: Props) {
+  const [chain, setChain] = useState<RepostChain>(() => walkRepostChain(post));
+  const [loadingChain, setLoadingChain] = useState(false);
+  const [reposts, setReposts] = useState<Post[]>([]);
+  const [nextUrl, setNextUrl] = useState<string | null>(null);
+  const [loadingReposts, setLoadingReposts] = useState(true);
+
+  // Show what's embedded straight away, then fetch whatever links it's missing
+  useEffect(() => {
+    const embedded = walkRepostChain(post);
+    setChain(embedded);
+    if (embedded.end !== 'missing') return;
+    let cancelled = false;
+
+    setLoadingChain(true);
+    fetchRepostChain(post)
+      .then(resolved => {
+        if (!cancelled) setChain(resolved);
+      })
+      .catch(error => {
+        console.error('Error loading repost chain:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingChain(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [post]);
+
+  const loadReposts = useCallback(async (cursor?: string) => {
+    setLoadingReposts(true);
+    try {
+      const { results, next } = await fetchReposts(post.id, cursor);
+      setReposts(prev => {
+        if (!cursor) return results;
+        const existingIds = new Set(prev.map(p => p.id));
+        return [...prev, ...results.filter(p => !existingIds.has(p.id))];
+      });
+      setNextUrl(next);
+    } catch (error) {
+      console.error('Error loading reposts:', error);
+    } finally {
+      setLoadingReposts(false);
+    }
+  }, [post.id]);
+
+  useEffect(() => {
+    loadReposts();
+  }, [loadReposts]);
+
+  const handleLoadMore = () => {
+    if (!nextUrl || loadingReposts) return;
+    const cursor = new URL(nextUrl).searchParams.get('cursor');
+    if (cursor) loadReposts(cursor);
+  };
+
+  const renderPostRow = (item: Post, key: string, indent = 0) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.row, { marginLeft: Math.min(indent, MAX_INDENT_LEVEL) * 12 }]}
+      onPress={() => onOpenPost(item)}
+    >
+      {item.rendered_image_url ? (
+        <Image source={{ uri: item.rendered_image_url }} style={styles.thumbnail} />
+      ) : (
+        <View style={[styles.thumbnail, { backgroundColor: item.background_color }]} />
+      )}
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowHandle}>@{item.author.handle}</Text>
+        <Text style={styles.rowText} numberOfLines={1}>
+          {item.text_content}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={16} color={Colors.secondary} />
+    </TouchableOpacity>
+  );
+
+  const renderChain = () => {
+    const note = CHAIN_END_NOTES[chain.end];
+    if (chain.posts.length === 0 && !note && !loadingChain) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Reposted from</Text>
+        {chain.posts.map((original, index) => renderPostRow(original, `${original.id}-${index}`, index))}
+        {loadingChain ? (
+          <ActivityIndicator style={styles.spinner} size="small" color={Colors.accent} />
+        ) : (
+          note && <Text style={styles.note}>{note}</Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderReposts = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Reposts of this</Text>
+      {reposts.map(repost => renderPostRow(repost, repost.id))}
+      {loadingReposts ? (
+        <ActivityIndicator style={styles.spinner} size="small" color={Colors.accent} />
+      ) : reposts.length === 0 ? (
+        <Text style={styles.note}>No reposts yet</Text>
+      ) : (
+        nextUrl && (
+          <TouchableOpacity style={styles.moreButton} onPress={handleLoadMore}>
+            <Text style={styles.moreText}>Show more</Text>
+          </TouchableOpacity>
+        )
+      )}
+    </View>
+  );
+
+  return (
+    <>
+      {renderChain()}
+      {renderReposts()}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    padding: 24,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.surface,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.primary,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 4,
+    backgroundColor: Colors.surface,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowHandle: {
+    color: Colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rowText: {
+    color: Colors.secondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  note: {
+    color: Colors.secondary,
+    fontSize: 14,
+    marginTop: 8,
+  },
+  spinner: {
+    marginTop: 8,
+    alignSelf: 'flex-start',
+  },
+  moreButton: {
+    marginTop: 8,
+    paddingVertical: 8,
+  },
+  moreText: {
+    color: Colors.accent,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
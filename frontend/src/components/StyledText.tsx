@@ -0,0 +1,116 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextStyle } from 'react-native';
+import { getFont } from '../constants/fonts';
+import { TextBackgroundShape, TextEffects } from '../types';
+import { getBoxMetrics, resolveTextEffects, StyledTextElement } from '../services/layoutEngine';
+
+interface Props {
+  element: StyledTextElement;
+  text: string;
+  ratio: number; // Screen points per canvas unit
+  numberOfLines?: number;
+}
+
+// Preset sizes in canvas units, offered by the composer's effects panel
+export const OutlineWidths = [6, 12, 20];
+export const GlowRadius = 24;
+export const ShadowPresets: Record<'soft' | 'hard', NonNullable<TextEffects['shadow']>> = {
+  soft: { color: 'rgba(0,0,0,0.6)', offsetX: 0, offsetY: 8, blur: 24 },
+  hard: { color: '#000000', offsetX: 10, offsetY: 10, blur: 0 },
+};
+
+export const BackgroundShapes: { shape: TextBackgroundShape; name: string }[] = [
+  { shape: 'box', name: 'Box' },
+  { shape: 'rounded', name: 'Rounded' },
+  { shape: 'pill', name: 'Pill' },
+  { shape: 'highlight', name: 'Highlight' },
+];
+
+const getBoxStyle = (shape: TextBackgroundShape, color: string, fontSize: number) => {
+  const { paddingX, paddingY, radius } = getBoxMetrics(shape, fontSize);
+  return { backgroundColor: color, paddingHorizontal: paddingX, paddingVertical: paddingY, borderRadius: radius };
+};
+
+// Eight directions are enough for the copies to read as a solid stroke
+const OUTLINE_DIRECTIONS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [0.71, 0.71], [-0.71, 0.71], [0.71, -0.71], [-0.71, -0.71],
+];
+
+/**
+ * Text with its outline, glow, shadow and background drawn the way the server renderer does.
+ * React Native has no text stroke and one shadow per Text, so effects are stacked copies:
+ * highlight, shadow, outline, then the fill with its glow on top.
+ */
+export default function StyledText({ element, text, ratio, numberOfLines }: Props) {
+  const font = getFont(element.fontFamily);
+  const { color, effects } = resolveTextEffects(element);
+  const fontSize = element.fontSize * ratio;
+  const { outline, glow, shadow, background } = effects;
+
+  const baseStyle: TextStyle = {
+    fontSize,
+    fontFamily: font.fontFamily,
+    textAlign: 'center',
+    textTransform: element.capsLock ? 'uppercase' : 'none',
+    includeFontPadding: false,
+  };
+
+  const renderCopy = (key: string, style: TextStyle) => (
+    <Text key={key} numberOfLines={numberOfLines} style={[baseStyle, styles.copy, style]}>
+      {text}
+    </Text>
+  );
+
+  const outlineColor = outline?.color || color;
+  const outlineWidth = (outline?.width || 0) * ratio;
+
+  return (
+    <View style={background && background.shape !== 'highlight' ? getBoxStyle(background.shape, background.color, fontSize) : undefined}>
+      <View>
+        {/* In flow so the stack takes the text's size; carries the per-line highlight */}
+        <Text numberOfLines={numberOfLines} style={[baseStyle, { color: 'transparent' }]}>
+          {background?.shape === 'highlight' ? (
+            <Text style={{ backgroundColor: background.color }}>{text}</Text>
+          ) : (
+            text
+          )}
+        </Text>
+
+        {shadow &&
+          renderCopy('shadow', {
+            color: outline ? outlineColor : color,
+            textShadowColor: shadow.color,
+            textShadowOffset: { width: shadow.offsetX * ratio, height: shadow.offsetY * ratio },
+            textShadowRadius: shadow.blur * ratio,
+          })}
+
+        {outline &&
+          OUTLINE_DIRECTIONS.map(([dx, dy], index) =>
+            renderCopy(`outline-${index}`, {
+              color: outlineColor,
+              transform: [{ translateX: dx * outlineWidth }, { translateY: dy * outlineWidth }],
+            }),
+          )}
+
+        {renderCopy('fill', {
+          color,
+          ...(glow && {
+            textShadowColor: glow.color,
+            textShadowOffset: { width: 0, height: 0 },
+            textShadowRadius: glow.radius * ratio,
+          }),
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  copy: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+  },
+});
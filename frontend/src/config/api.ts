@@ -10,6 +10,9 @@ export const getDeviceId = () => {
 // API base URL - you can configure this via app.json or environment
 const API_BASE_URL = Constants.expoConfig?.extra?.apiUrl || 'http://localhost:8001';
 
+// WebSocket base URL - same host as the API, ws:// or wss:// scheme
+export const WS_BASE_URL = API_BASE_URL.replace(/^http/, 'ws');
+
 // Create axios instance with default config
 export const api = axios.create({
   baseURL: `${API_BASE_URL}/api`,
@@ -26,6 +29,9 @@ export const endpoints = {
   createPost: '/posts/',
   getFeed: '/feed/',
   getPost: (id: string) => `/posts/${id}/`,
+  getPostReposts: (id: string) => `/posts/${id}/reposts/`,
+  recordImpressions: '/posts/impressions/',
+  reactToPost: (id: string) => `/posts/${id}/react/`,
   
   // Moderation
   reportPost: (id: string) => `/posts/${id}/report/`,
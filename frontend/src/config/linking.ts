@@ -0,0 +1,39 @@
+import Constants from 'expo-constants';
+import { LinkingOptions } from '@react-navigation/native';
+import { RootStackParamList } from '../types';
+
+// Web host for shared links - configured via app.json "extra.shareHost"
+export const SHARE_HOST: string = Constants.expoConfig?.extra?.shareHost || 'tbd-app.com';
+
+export const APP_SCHEME = 'tbd';
+
+// Public link for a post, used when sharing outside the app
+export const getPostShareUrl = (postId: string) => `https://${SHARE_HOST}/p/${postId}`;
+
+// Maps incoming links onto stack screens:
+//   tbd://post/:postId, https://<host>/p/:postId  -> PostDetail
+//   tbd://compose?repostOf=:postId                -> PostComposer
+// Main is always kept underneath so back/close from a deep link lands on the feed.
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [`${APP_SCHEME}://`, `https://${SHARE_HOST}`, `https://www.${SHARE_HOST}`],
+  config: {
+    initialRouteName: 'Main',
+    screens: {
+      Main: '',
+      PostDetail: {
+        path: 'post/:postId',
+        alias: ['p/:postId'],
+      },
+      PostComposer: {
+        path: 'compose',
+        // Only the repostOf id comes from the URL - repostData is built in-app
+        parse: {
+          repostOf: (value: string) => value,
+        },
+      },
+      Profile: 'profile',
+      Settings: 'settings',
+      Drafts: 'drafts',
+    },
+  },
+};
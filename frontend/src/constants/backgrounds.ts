@@ -0,0 +1,29 @@
+import { BackgroundPatternKind } from '../types';
+
+// Quick picks in the background editor - anything else comes from the colour picker
+export const BackgroundColors = ['#F8F8FF', '#1B1B1B', '#FF1A1A', '#4A90E2', '#7B68EE', '#FF6B6B', '#4ECDC4'];
+
+export interface GradientPreset {
+  name: string;
+  colors: string[];
+  angle: number;
+}
+
+export const GradientPresets: GradientPreset[] = [
+  { name: 'Sunset', colors: ['#FF512F', '#F09819'], angle: 180 },
+  { name: 'Ocean', colors: ['#2193B0', '#6DD5ED'], angle: 135 },
+  { name: 'Vaporwave', colors: ['#FF71CE', '#B967FF', '#01CDFE'], angle: 180 },
+  { name: 'Midnight', colors: ['#0F2027', '#203A43', '#2C5364'], angle: 180 },
+  { name: 'Acid', colors: ['#DCE35B', '#45B649'], angle: 45 },
+  { name: 'Blood', colors: ['#000000', '#FF1A1A'], angle: 180 },
+];
+
+export const MIN_GRADIENT_STOPS = 2;
+export const MAX_GRADIENT_STOPS = 5;
+
+// Default cell sizes in canvas units
+export const PatternKinds: { kind: BackgroundPatternKind; name: string; size: number }[] = [
+  { kind: 'stripes', name: 'Stripes', size: 60 },
+  { kind: 'checkerboard', name: 'Checks', size: 90 },
+  { kind: 'noise', name: 'Noise', size: 40 },
+];
@@ -41,26 +41,3 @@ export const Colors = {
     '#4169E1', '#8B4513', '#20B2AA', '#B22222', '#228B22'
   ],
 };
-
-export const FontChoices = {
-  'arial-black': {
-    name: 'Arial Black',
-    fontFamily: 'System',
-    fontWeight: '900' as const,
-  },
-  'crimson-text': {
-    name: 'Crimson Text',
-    fontFamily: 'Times',
-    fontWeight: 'bold' as const,
-  },
-  'papyrus': {
-    name: 'Papyrus',
-    fontFamily: 'System',
-    fontWeight: 'bold' as const,
-  },
-  'impact': {
-    name: 'Impact',
-    fontFamily: 'System',
-    fontWeight: '900' as const,
-  },
-};
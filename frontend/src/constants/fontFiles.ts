@@ -0,0 +1,25 @@
+import { ArchivoBlack_400Regular } from '@expo-google-fonts/archivo-black';
+import { CrimsonText_700Bold } from '@expo-google-fonts/crimson-text';
+import { UncialAntiqua_400Regular } from '@expo-google-fonts/uncial-antiqua';
+import { Anton_400Regular } from '@expo-google-fonts/anton';
+import { Bangers_400Regular } from '@expo-google-fonts/bangers';
+import { PermanentMarker_400Regular } from '@expo-google-fonts/permanent-marker';
+import { SpaceMono_700Bold } from '@expo-google-fonts/space-mono';
+import { PlayfairDisplay_900Black } from '@expo-google-fonts/playfair-display';
+import { Pacifico_400Regular } from '@expo-google-fonts/pacifico';
+import { PressStart2P_400Regular } from '@expo-google-fonts/press-start-2p';
+
+// Bundled font files for expo-font's useFonts, keyed by the fontFamily names in FontRegistry.
+// Kept apart from the registry so layout code can read font metrics without pulling in assets.
+export const FontFiles = {
+  ArchivoBlack_400Regular,
+  CrimsonText_700Bold,
+  UncialAntiqua_400Regular,
+  Anton_400Regular,
+  Bangers_400Regular,
+  PermanentMarker_400Regular,
+  SpaceMono_700Bold,
+  PlayfairDisplay_900Black,
+  Pacifico_400Regular,
+  PressStart2P_400Regular,
+};
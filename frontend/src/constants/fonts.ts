@@ -0,0 +1,78 @@
+import { FontId } from '../types';
+
+export interface FontMetrics {
+  widthFactor: number; // Average glyph advance as a fraction of font size - used to estimate text bounds
+  lineHeight: number;  // Line box as a multiple of font size
+  minSize: number;     // Scale slider range in canvas units, so narrow and wide faces end up a similar size
+  maxSize: number;
+}
+
+export interface FontDefinition {
+  name: string;
+  fontFamily: string; // Name the font file is registered under with expo-font (see fontFiles.ts)
+  metrics: FontMetrics;
+}
+
+/**
+ * Every font a post can use. Ids are stored in posts and drafts, and the server renderer
+ * bundles the same files under the same ids, so never rename or reuse an id - add a new one.
+ */
+export const FontRegistry: Record<FontId, FontDefinition> = {
+  'arial-black': {
+    name: 'Archivo Black',
+    fontFamily: 'ArchivoBlack_400Regular',
+    metrics: { widthFactor: 0.68, lineHeight: 1.2, minSize: 22, maxSize: 200 },
+  },
+  'crimson-text': {
+    name: 'Crimson Text',
+    fontFamily: 'CrimsonText_700Bold',
+    metrics: { widthFactor: 0.5, lineHeight: 1.25, minSize: 26, maxSize: 240 },
+  },
+  'papyrus': {
+    name: 'Uncial Antiqua',
+    fontFamily: 'UncialAntiqua_400Regular',
+    metrics: { widthFactor: 0.62, lineHeight: 1.3, minSize: 22, maxSize: 200 },
+  },
+  'impact': {
+    name: 'Anton',
+    fontFamily: 'Anton_400Regular',
+    metrics: { widthFactor: 0.45, lineHeight: 1.3, minSize: 26, maxSize: 260 },
+  },
+  'bangers': {
+    name: 'Bangers',
+    fontFamily: 'Bangers_400Regular',
+    metrics: { widthFactor: 0.5, lineHeight: 1.15, minSize: 26, maxSize: 240 },
+  },
+  'permanent-marker': {
+    name: 'Permanent Marker',
+    fontFamily: 'PermanentMarker_400Regular',
+    metrics: { widthFactor: 0.62, lineHeight: 1.4, minSize: 22, maxSize: 200 },
+  },
+  'space-mono': {
+    name: 'Space Mono',
+    fontFamily: 'SpaceMono_700Bold',
+    metrics: { widthFactor: 0.6, lineHeight: 1.3, minSize: 20, maxSize: 180 },
+  },
+  'playfair-display': {
+    name: 'Playfair Display',
+    fontFamily: 'PlayfairDisplay_900Black',
+    metrics: { widthFactor: 0.58, lineHeight: 1.3, minSize: 22, maxSize: 220 },
+  },
+  'pacifico': {
+    name: 'Pacifico',
+    fontFamily: 'Pacifico_400Regular',
+    metrics: { widthFactor: 0.6, lineHeight: 1.7, minSize: 22, maxSize: 200 },
+  },
+  'press-start-2p': {
+    name: 'Press Start 2P',
+    fontFamily: 'PressStart2P_400Regular',
+    metrics: { widthFactor: 1.0, lineHeight: 1.2, minSize: 14, maxSize: 110 },
+  },
+};
+
+export const DEFAULT_FONT_ID: FontId = 'arial-black';
+
+export const FontIds = Object.keys(FontRegistry) as FontId[];
+
+// Unknown ids (posts from a newer app version) fall back to the default font
+export const getFont = (id?: string) => FontRegistry[id as FontId] || FontRegistry[DEFAULT_FONT_ID];
@@ -0,0 +1,3 @@
+import { Dimensions } from 'react-native';
+
+export const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -0,0 +1,23 @@
+import { ReactionId } from '../types';
+
+// Reactions a post can get. The server aggregates counts by id, so ids must never be
+// renamed or reused.
+export interface Reaction {
+  id: ReactionId;
+  name: string;
+  emoji: string;
+}
+
+export const Reactions: Reaction[] = [
+  { id: 'heart', name: 'Heart', emoji: '❤️' },
+  { id: 'fire', name: 'Fire', emoji: '🔥' },
+  { id: 'crying-laughing', name: 'Crying Laughing', emoji: '😂' },
+  { id: 'skull', name: 'Skull', emoji: '💀' },
+  { id: 'eyes', name: 'Eyes', emoji: '👀' },
+  { id: 'clown', name: 'Clown', emoji: '🤡' },
+];
+
+// What a double-tap sends
+export const DEFAULT_REACTION: ReactionId = 'heart';
+
+export const getReaction = (id?: ReactionId | null) => Reactions.find(reaction => reaction.id === id);
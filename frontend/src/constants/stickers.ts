@@ -0,0 +1,28 @@
+// Bundled sticker pack. Posts reference stickers by id and the server renderer
+// keeps the same pack, so ids must never be renamed or reused.
+export interface Sticker {
+  id: string;
+  name: string;
+  emoji: string;
+}
+
+export const StickerPack: Sticker[] = [
+  { id: 'fire', name: 'Fire', emoji: '🔥' },
+  { id: 'skull', name: 'Skull', emoji: '💀' },
+  { id: 'crying-laughing', name: 'Crying Laughing', emoji: '😂' },
+  { id: 'eyes', name: 'Eyes', emoji: '👀' },
+  { id: 'clown', name: 'Clown', emoji: '🤡' },
+  { id: 'hundred', name: '100', emoji: '💯' },
+  { id: 'rage', name: 'Rage', emoji: '😡' },
+  { id: 'broken-heart', name: 'Broken Heart', emoji: '💔' },
+  { id: 'trash', name: 'Trash', emoji: '🗑️' },
+  { id: 'rocket', name: 'Rocket', emoji: '🚀' },
+  { id: 'sparkles', name: 'Sparkles', emoji: '✨' },
+  { id: 'middle-finger', name: 'Middle Finger', emoji: '🖕' },
+  { id: 'poop', name: 'Poop', emoji: '💩' },
+  { id: 'ghost', name: 'Ghost', emoji: '👻' },
+  { id: 'bomb', name: 'Bomb', emoji: '💣' },
+  { id: 'crown', name: 'Crown', emoji: '👑' },
+];
+
+export const getSticker = (id?: string) => StickerPack.find(sticker => sticker.id === id);
@@ -0,0 +1,189 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/colors';
+import { screenWidth } from '../constants/layout';
+import { RootStackParamList } from '../types';
+import { draftService, useDrafts, Draft } from '../services/drafts';
+import DraftThumbnail from '../components/DraftThumbnail';
+
+type DraftsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Drafts'>;
+
+const GRID_PADDING = 16;
+const GRID_GAP = 12;
+const THUMBNAIL_WIDTH = (screenWidth - GRID_PADDING * 2 - GRID_GAP) / 2;
+
+const formatUpdatedAt = (dateString: string) => {
+  const diffInMinutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (diffInMinutes < 1) return 'Edited just now';
+  if (diffInMinutes < 60) return `Edited ${diffInMinutes}m ago`;
+  if (diffInMinutes < 1440) return `Edited ${Math.floor(diffInMinutes / 60)}h ago`;
+  return `Edited ${new Date(dateString).toLocaleDateString()}`;
+};
+
+export default function DraftsScreen() {
+  const navigation = useNavigation<DraftsScreenNavigationProp>();
+  const drafts = useDrafts();
+
+  const handleClose = () => {
+    navigation.goBack();
+  };
+
+  const handleOpenDraft = (draft: Draft) => {
+    // Replace whatever composer is open so only one editor exists at a time
+    navigation.reset({
+      index: 1,
+      routes: [
+        { name: 'Main' },
+        { name: 'PostComposer', params: { draftId: draft.id } },
+      ],
+    });
+  };
+
+  const handleDeleteDraft = (draft: Draft) => {
+    Alert.alert(
+      'Delete Draft',
+      'This draft will be gone for good.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => draftService.deleteDraft(draft.id) },
+      ]
+    );
+  };
+
+  const renderDraft = ({ item }: { item: Draft }) => (
+    <View style={styles.draftItem}>
+      <TouchableOpacity activeOpacity={0.8} onPress={() => handleOpenDraft(item)}>
+        <DraftThumbnail draft={item} width={THUMBNAIL_WIDTH} />
+      </TouchableOpacity>
+      <View style={styles.draftFooter}>
+        <Text style={styles.draftTime} numberOfLines={1}>
+          {formatUpdatedAt(item.updatedAt)}
+        </Text>
+        <TouchableOpacity
+          style={styles.draftAction}
+          onPress={() => draftService.duplicateDraft(item.id)}
+        >
+          <Ionicons name="copy-outline" size={18} color={Colors.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.draftAction} onPress={() => handleDeleteDraft(item)}>
+          <Ionicons name="trash-outline" size={18} color={Colors.error} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="document-text-outline" size={48} color={Colors.border} />
+      <Text style={styles.emptyTitle}>No drafts yet</Text>
+      <Text style={styles.emptySubtitle}>
+        Anything you start in the composer is saved here automatically
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Drafts</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <FlatList
+        data={drafts}
+        renderItem={renderDraft}
+        keyExtractor={(item) => item.id}
+        numColumns={2}
+        columnWrapperStyle={styles.row}
+        contentContainerStyle={[styles.grid, drafts.length === 0 && styles.emptyGrid]}
+        ListEmptyComponent={renderEmpty}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.surface,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.primary,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  grid: {
+    padding: GRID_PADDING,
+  },
+  emptyGrid: {
+    flexGrow: 1,
+  },
+  row: {
+    gap: GRID_GAP,
+    marginBottom: GRID_GAP,
+  },
+  draftItem: {
+    width: THUMBNAIL_WIDTH,
+  },
+  draftFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  draftTime: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.secondary,
+  },
+  draftAction: {
+    padding: 6,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    color: Colors.primary,
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    color: Colors.secondary,
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -7,10 +7,10 @@ import {
   Animated,
   Dimensions,
 } from 'react-native';
-import { SafeAreaView } from 'react-native-safe-area-context';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import Feed from '../components/Feed';
+import Feed, { FeedHandle } from '../components/Feed';
 import { Colors } from '../constants/colors';
 import { Post } from '../types';
 
@@ -23,6 +23,10 @@ export default function MainScreen() {
   const lastScrollY = useRef(0);
   const headerTranslateY = useRef(new Animated.Value(0)).current;
   const headerAnimationRef = useRef<Animated.CompositeAnimation | null>(null);
+  const feedRef = useRef<FeedHandle>(null);
+  const insets = useSafeAreaInsets();
+  const [headerHeight, setHeaderHeight] = useState(100);
+  const [pendingCount, setPendingCount] = useState(0);
 
   const handleNewPost = (post: Post) => {
     setNewPost(post);
@@ -32,6 +36,21 @@ export default function MainScreen() {
     setNewPost(null);
   };
 
+  const handlePendingPostsChange = useCallback((count: number) => {
+    setPendingCount(count);
+  }, []);
+
+  const handleShowPendingPosts = () => {
+    feedRef.current?.showPendingPosts();
+  };
+
+  // Keep the pill tucked under the header, sliding up with it when it hides
+  const pillTranslateY = headerTranslateY.interpolate({
+    inputRange: [-100, 0],
+    outputRange: [-(headerHeight - insets.top), 0],
+    extrapolate: 'clamp',
+  });
+
   const handleScroll = Animated.event(
     [{ nativeEvent: { contentOffset: { y: scrollY } } }],
     {
@@ -81,6 +100,7 @@ export default function MainScreen() {
             transform: [{ translateY: headerTranslateY }],
           },
         ]}
+        onLayout={(event) => setHeaderHeight(event.nativeEvent.layout.height)}
       >
         <SafeAreaView edges={['top']} style={styles.headerContent}>
           <Text style={styles.appTitle}>TBD</Text>
@@ -90,11 +110,38 @@ export default function MainScreen() {
         </SafeAreaView>
       </Animated.View>
 
+      {/* New Posts Pill */}
+      {pendingCount > 0 && (
+        <Animated.View
+          style={[
+            styles.newPostsPillContainer,
+            {
+              top: headerHeight + 8,
+              transform: [{ translateY: pillTranslateY }],
+            },
+          ]}
+          pointerEvents="box-none"
+        >
+          <TouchableOpacity
+            style={styles.newPostsPill}
+            onPress={handleShowPendingPosts}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="arrow-up" size={16} color={Colors.background} />
+            <Text style={styles.newPostsPillText}>
+              {pendingCount} new {pendingCount === 1 ? 'post' : 'posts'}
+            </Text>
+          </TouchableOpacity>
+        </Animated.View>
+      )}
+
       {/* Main Feed */}
       <View style={styles.feedContainer}>
         <Feed 
+          ref={feedRef}
           newPost={newPost}
           onNewPostDisplayed={handleNewPostDisplayed}
+          onPendingPostsChange={handlePendingPostsChange}
           onScroll={handleScroll}
           contentInsetAdjustmentBehavior="never"
           contentInset={{ top: 100 }}
@@ -148,6 +195,35 @@ const styles = StyleSheet.create({
   feedContainer: {
     flex: 1,
   },
+  newPostsPillContainer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    zIndex: 999,
+  },
+  newPostsPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: Colors.accent,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+  },
+  newPostsPillText: {
+    color: Colors.background,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   floatingButton: {
     position: 'absolute',
     bottom: 30,
@@ -1,9 +1,13 @@
-import React from 'react';
-import { View, StyleSheet, StatusBar } from 'react-native';
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, StatusBar, ActivityIndicator, Alert } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import Toast from 'react-native-toast-message';
 import PostComposer from '../components/PostComposer';
 import { Post, RepostData, RootStackParamList } from '../types';
+import { api, endpoints } from '../config/api';
+import { getCachedPost } from '../services/postCache';
+import { draftService, Draft } from '../services/drafts';
 
 interface Props {
   onPost?: (post: Post) => void;
@@ -11,6 +15,8 @@ interface Props {
 
 interface RouteParams {
   repostData?: RepostData;
+  repostOf?: string; // Set by tbd://compose?repostOf=<id> deep links
+  draftId?: string; // Set when opening a draft from the drafts library
 }
 
 type PostComposerScreenNavigationProp = StackNavigationProp<RootStackParamList, 'PostComposer'>;
@@ -18,7 +24,106 @@ type PostComposerScreenNavigationProp = StackNavigationProp<RootStackParamList,
 export default function PostComposerScreen({ onPost }: Props) {
   const navigation = useNavigation<PostComposerScreenNavigationProp>();
   const route = useRoute();
-  const { repostData } = (route.params as RouteParams) || {};
+  const { repostData: initialRepostData, repostOf, draftId } = (route.params as RouteParams) || {};
+  const [repostData, setRepostData] = useState<RepostData | undefined>(initialRepostData);
+  const [resolvingRepost, setResolvingRepost] = useState(!initialRepostData && !!repostOf);
+  const [draft, setDraft] = useState<Draft | undefined>();
+  const [resolvingDraft, setResolvingDraft] = useState(!initialRepostData && !repostOf);
+
+  // Open the requested draft, or offer to pick up the last one when starting a plain new post
+  useEffect(() => {
+    if (initialRepostData || repostOf) return;
+    let cancelled = false;
+
+    const resolveDraft = async () => {
+      await draftService.load();
+      if (cancelled) return;
+
+      if (draftId) {
+        const requested = draftService.getDraft(draftId);
+        if (!requested) {
+          Toast.show({
+            type: 'info',
+            text1: 'Draft not found',
+            text2: 'Starting a fresh post instead',
+          });
+        }
+        setDraft(requested);
+        setResolvingDraft(false);
+        return;
+      }
+
+      const latest = draftService.getLatestDraft();
+      if (!latest) {
+        setResolvingDraft(false);
+        return;
+      }
+
+      Alert.alert(
+        'Resume Draft?',
+        'You have an unfinished post. Pick up where you left off?',
+        [
+          { text: 'Start Fresh', style: 'cancel', onPress: () => setResolvingDraft(false) },
+          {
+            text: 'Resume',
+            onPress: () => {
+              setDraft(latest);
+              setResolvingDraft(false);
+            },
+          },
+        ],
+        { cancelable: false }
+      );
+    };
+
+    resolveDraft();
+    return () => {
+      cancelled = true;
+    };
+  }, [initialRepostData, repostOf, draftId]);
+
+  // Deep links only carry the original post id - fetch it to build the repost
+  useEffect(() => {
+    if (initialRepostData || !repostOf) return;
+    let cancelled = false;
+
+    const resolveRepost = async () => {
+      try {
+        const originalPost = getCachedPost(repostOf)
+          || (await api.get<Post>(endpoints.getPost(repostOf))).data;
+        if (cancelled) return;
+
+        if (!originalPost.rendered_image_url) {
+          Toast.show({
+            type: 'info',
+            text1: 'Can\'t repost that one',
+            text2: 'Starting a fresh post instead',
+          });
+          return;
+        }
+
+        setRepostData({
+          originalPost,
+          screenshotUri: originalPost.rendered_image_url,
+        });
+      } catch (error: any) {
+        console.error('Error loading post to repost:', error);
+        if (cancelled) return;
+        Toast.show({
+          type: 'info',
+          text1: 'Original post unavailable',
+          text2: 'Starting a fresh post instead',
+        });
+      } finally {
+        if (!cancelled) setResolvingRepost(false);
+      }
+    };
+
+    resolveRepost();
+    return () => {
+      cancelled = true;
+    };
+  }, [initialRepostData, repostOf]);
 
   const handlePost = (post: Post) => {
     // Pass post to parent for immediate feed update first
@@ -38,13 +143,28 @@ export default function PostComposerScreen({ onPost }: Props) {
     });
   };
 
+  const handleOpenDrafts = () => {
+    navigation.navigate('Drafts');
+  };
+
+  if (resolvingRepost || resolvingDraft) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <StatusBar hidden />
+        <ActivityIndicator size="large" color="white" />
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <StatusBar hidden />
       <PostComposer 
         onPost={handlePost} 
         onClose={handleClose}
-        repostData={repostData}
+        onOpenDrafts={handleOpenDrafts}
+        repostData={draft?.repostData || repostData}
+        draft={draft}
       />
     </View>
   );
@@ -55,4 +175,8 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#000', // Black background for full immersion
   },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
 });
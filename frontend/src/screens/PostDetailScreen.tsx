@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import { Colors } from '../constants/colors';
+import { Post, RootStackParamList } from '../types';
+import { api, endpoints } from '../config/api';
+import { getCachedPost, cachePosts, removeCachedPost } from '../services/postCache';
+import { useCachedImageUri } from '../services/imageCache';
+import { buildRepostData } from '../services/repostChain';
+import PostActionSheet from '../components/PostActionSheet';
+import RepostLineage from '../components/RepostLineage';
+
+type PostDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'PostDetail'>;
+type PostDetailScreenRouteProp = RouteProp<RootStackParamList, 'PostDetail'>;
+
+export default function PostDetailScreen() {
+  const navigation = useNavigation<PostDetailScreenNavigationProp>();
+  const route = useRoute<PostDetailScreenRouteProp>();
+  const { postId } = route.params;
+
+  const [post, setPost] = useState<Post | null>(() => getCachedPost(postId) || null);
+  const [loading, setLoading] = useState(!post);
+  const [error, setError] = useState<string | null>(null);
+  // Only network failures and server errors can go away on a retry
+  const [canRetry, setCanRetry] = useState(false);
+  const [showActions, setShowActions] = useState(false);
+  const [imageAspectRatio, setImageAspectRatio] = useState<number | null>(null);
+  const imageUri = useCachedImageUri(post?.rendered_image_url);
+
+  const fetchPost = useCallback(async () => {
+    try {
+      setError(null);
+      setCanRetry(false);
+      const response = await api.get<Post>(endpoints.getPost(postId));
+      setPost(response.data);
+      cachePosts([response.data]);
+    } catch (error: any) {
+      console.error('Error fetching post:', error);
+      // Removed posts 404; posts hidden from this viewer (e.g. shadowbanned author) come back 403
+      if ([403, 404, 410].includes(error.response?.status)) {
+        removeCachedPost(postId);
+        setPost(null);
+        setError('This post is no longer available');
+      } else {
+        setError(error.response?.data?.detail || 'Failed to load post');
+      }
+      const status = error.response?.status;
+      setCanRetry(!status || status >= 500);
+    } finally {
+      setLoading(false);
+    }
+  }, [postId]);
+
+  // Refetch even when cached so view_count and removals are current
+  useEffect(() => {
+    fetchPost();
+  }, [fetchPost]);
+
+  const handleClose = () => {
+    navigation.goBack();
+  };
+
+  const handleReport = async (reason: string, description: string) => {
+    try {
+      await api.post(endpoints.reportPost(postId), { reason, description });
+      Toast.show({
+        type: 'success',
+        text1: 'Reported',
+        text2: 'Thank you for helping keep the community safe',
+      });
+    } catch (error: any) {
+      console.error('Error reporting post:', error);
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: error.response?.data?.error || error.response?.data?.detail || 'Failed to report post',
+      });
+    }
+  };
+
+  const handleMute = async () => {
+    if (!post) return;
+    try {
+      await api.post(endpoints.muteUser(post.author.handle));
+      Toast.show({
+        type: 'success',
+        text1: 'Muted',
+        text2: `You won't see posts from @${post.author.handle} anymore`,
+      });
+      navigation.goBack();
+    } catch (error: any) {
+      console.error('Error muting user:', error);
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: error.response?.data?.error || error.response?.data?.detail || 'Failed to mute user',
+      });
+    }
+  };
+
+  const handleCopyText = () => {
+    Toast.show({
+      type: 'success',
+      text1: 'Copied',
+      text2: 'Text copied to clipboard',
+    });
+  };
+
+  const handleRepost = () => {
+    const repostData = post && buildRepostData(post);
+    if (!repostData) {
+      Toast.show({
+        type: 'error',
+        text1: 'Can\'t repost that one',
+        text2: 'This post hasn\'t finished rendering yet',
+      });
+      return;
+    }
+    navigation.navigate('PostComposer', { repostData });
+  };
+
+  const handleOpenPost = (item: Post) => {
+    cachePosts([item]);
+    navigation.push('PostDetail', { postId: item.id });
+  };
+
+  const getImageAspectRatio = (item: Post) => {
+    if (item.image_width && item.image_height) {
+      return item.image_width / item.image_height;
+    }
+    return imageAspectRatio || 2 / 3;
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={handleClose} style={styles.headerButton}>
+        <Ionicons name="chevron-back" size={24} color={Colors.primary} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Post</Text>
+      <TouchableOpacity
+        onPress={() => setShowActions(true)}
+        style={styles.headerButton}
+        disabled={!post}
+      >
+        <Ionicons name="ellipsis-horizontal" size={24} color={post ? Colors.primary : Colors.border} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.accent} />
+          <Text style={styles.loadingText}>Loading post...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!post) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.centered}>
+          <Text style={styles.emptyTitle}>Post unavailable</Text>
+          <Text style={styles.emptySubtitle}>{error || 'This post is no longer available'}</Text>
+          {canRetry && (
+            <TouchableOpacity style={styles.retryButton} onPress={fetchPost}>
+              <Text style={styles.retryText}>Try again</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      {renderHeader()}
+
+      <ScrollView style={styles.content}>
+        {/* Full rendered image, uncropped */}
+        <TouchableOpacity
+          activeOpacity={0.95}
+          onLongPress={() => setShowActions(true)}
+          delayLongPress={500}
+        >
+          {post.rendered_image_url ? (
+            <Image
+              source={{ uri: imageUri }}
+              style={[styles.postImage, { aspectRatio: getImageAspectRatio(post) }]}
+              resizeMode="contain"
+              onLoad={(event) => {
+                const { width, height } = event.nativeEvent.source;
+                if (width && height) setImageAspectRatio(width / height);
+              }}
+            />
+          ) : (
+            <View style={[styles.placeholderImage, { backgroundColor: post.background_color }]}>
+              <Text style={[styles.placeholderText, { color: post.text_color }]}>
+                {post.text_content}
+              </Text>
+            </View>
+          )}
+        </TouchableOpacity>
+
+        {/* Author and metadata */}
+        <View style={styles.metaSection}>
+          <View style={styles.authorInfo}>
+            <View style={[styles.avatar, { backgroundColor: post.author.avatar_color }]} />
+            <Text style={styles.handle}>@{post.author.handle}</Text>
+          </View>
+          <View style={styles.metaRow}>
+            <Ionicons name="time-outline" size={16} color={Colors.secondary} />
+            <Text style={styles.metaText}>{new Date(post.created_at).toLocaleString()}</Text>
+          </View>
+          <View style={styles.metaRow}>
+            <Ionicons name="eye-outline" size={16} color={Colors.secondary} />
+            <Text style={styles.metaText}>
+              {post.view_count} {post.view_count === 1 ? 'view' : 'views'}
+            </Text>
+          </View>
+        </View>
+
+        <RepostLineage post={post} onOpenPost={handleOpenPost} />
+      </ScrollView>
+
+      <PostActionSheet
+        post={post}
+        visible={showActions}
+        onClose={() => setShowActions(false)}
+        onReport={handleReport}
+        onMute={handleMute}
+        onCopyText={handleCopyText}
+        onRepost={handleRepost}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.surface,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.primary,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  loadingText: {
+    color: Colors.secondary,
+    marginTop: 16,
+    fontSize: 16,
+  },
+  emptyTitle: {
+    color: Colors.primary,
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    color: Colors.secondary,
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  retryButton: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 25,
+    backgroundColor: Colors.accent,
+  },
+  retryText: {
+    color: Colors.background,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  content: {
+    flex: 1,
+  },
+  postImage: {
+    width: '100%',
+    backgroundColor: Colors.surface,
+  },
+  placeholderImage: {
+    width: '100%',
+    aspectRatio: 2/3,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  placeholderText: {
+    textAlign: 'center',
+    fontSize: 16,
+  },
+  metaSection: {
+    padding: 24,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.surface,
+  },
+  authorInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 12,
+  },
+  handle: {
+    color: Colors.primary,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  metaText: {
+    color: Colors.secondary,
+    fontSize: 14,
+    marginLeft: 8,
+  },
+});
@@ -40,6 +40,10 @@ export default function ProfileScreen() {
     navigation.navigate('Settings' as never);
   };
 
+  const handleDrafts = () => {
+    navigation.navigate('Drafts' as never);
+  };
+
   const handleClose = () => {
     navigation.goBack();
   };
@@ -113,6 +117,11 @@ export default function ProfileScreen() {
             </View>
 
             <View style={styles.actionSection}>
+              <TouchableOpacity style={[styles.actionButton, styles.actionButtonSpacing]} onPress={handleDrafts}>
+                <Ionicons name="documents-outline" size={24} color={Colors.primary} />
+                <Text style={styles.actionText}>Drafts</Text>
+                <Ionicons name="chevron-forward" size={20} color={Colors.secondary} />
+              </TouchableOpacity>
               <TouchableOpacity style={styles.actionButton} onPress={handleSettings}>
                 <Ionicons name="settings-outline" size={24} color={Colors.primary} />
                 <Text style={styles.actionText}>Settings</Text>
@@ -238,6 +247,9 @@ const styles = StyleSheet.create({
     paddingVertical: 16,
     borderRadius: 12,
   },
+  actionButtonSpacing: {
+    marginBottom: 12,
+  },
   actionText: {
     fontSize: 16,
     color: Colors.primary,
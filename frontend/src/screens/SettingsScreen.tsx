@@ -6,13 +6,17 @@ import {
   TouchableOpacity,
   Linking,
   Alert,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import Toast from 'react-native-toast-message';
 import { Colors } from '../constants/colors';
+import { usePreferences } from '../services/preferences';
 
 export default function SettingsScreen() {
+  const [preferences, updatePreferences] = usePreferences();
+
   const handleExportData = () => {
     Toast.show({
       type: 'info',
@@ -62,9 +66,37 @@ export default function SettingsScreen() {
     </TouchableOpacity>
   );
 
+  const renderToggleItem = (
+    icon: keyof typeof Ionicons.glyphMap,
+    title: string,
+    value: boolean,
+    onValueChange: (value: boolean) => void
+  ) => (
+    <View style={styles.settingItem}>
+      <Ionicons name={icon} size={20} color={Colors.primary} />
+      <Text style={styles.settingText}>{title}</Text>
+      <Switch
+        value={value}
+        onValueChange={onValueChange}
+        trackColor={{ true: Colors.accent, false: Colors.border }}
+      />
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
+        {/* Display */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Display</Text>
+          {renderToggleItem(
+            'person-circle-outline',
+            'Show author, time and views on posts',
+            preferences.showPostDetails,
+            (value) => updatePreferences({ showPostDetails: value })
+          )}
+        </View>
+
         {/* Privacy & Data */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Privacy & Data</Text>
@@ -0,0 +1,175 @@
+import { FontIds } from '../../constants/fonts';
+import { PostLayoutInput, buildPostLayout, cropToContent, layoutPost, layoutTextElement, wrapText } from '../layoutEngine';
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../canvasLayout';
+import { TextElement } from '../../types';
+
+/**
+ * The layout engine is the contract with the server renderer. These snapshots are the
+ * reference layouts the backend checks its own output against, so a changed snapshot
+ * means a matching backend change.
+ */
+
+const makeText = (overrides: Partial<TextElement> = {}): TextElement => ({
+  content: 'hello world',
+  x: CANVAS_WIDTH / 2,
+  y: CANVAS_HEIGHT / 2,
+  fontSize: 96,
+  scale: 1,
+  rotation: 0,
+  color: '#FF1A1A',
+  fontFamily: 'arial-black',
+  hasBackground: false,
+  backgroundColor: '#FFFFFF',
+  ...overrides,
+});
+
+const makePost = (overrides: Partial<PostLayoutInput> = {}): PostLayoutInput => ({
+  text_content: '',
+  font_choice: 'arial-black',
+  font_size: 96,
+  text_color: '#FF1A1A',
+  background_color: '#F8F8FF',
+  has_outline: false,
+  outline_color: '#000000',
+  canvas_width: CANVAS_WIDTH,
+  canvas_height: CANVAS_HEIGHT,
+  ...overrides,
+});
+
+describe('wrapText', () => {
+  it('keeps short text on one line', () => {
+    expect(wrapText('hello world', 50, 1000)).toMatchSnapshot();
+  });
+
+  it('wraps greedily at spaces across several lines', () => {
+    expect(wrapText('the quick brown fox jumps over the lazy dog', 50, 500)).toMatchSnapshot();
+  });
+
+  it('always breaks on newlines and collapses spaces at a break', () => {
+    expect(wrapText('first line\nsecond   line\n\nafter a gap', 50, 500)).toMatchSnapshot();
+  });
+
+  it('splits a word longer than a whole line', () => {
+    expect(wrapText('a supercalifragilisticexpialidocious word', 50, 400)).toMatchSnapshot();
+  });
+});
+
+describe('layoutTextElement', () => {
+  it('lays out a single line', () => {
+    expect(layoutTextElement(makeText(), CANVAS_WIDTH)).toMatchSnapshot();
+  });
+
+  it('wraps long text onto several centered lines', () => {
+    const content = 'this sentence is far too long to fit across the canvas on one line';
+    expect(layoutTextElement(makeText({ content }), CANVAS_WIDTH)).toMatchSnapshot();
+  });
+
+  it.each(FontIds)('measures with the widthFactor of %s', fontFamily => {
+    const content = 'every font wraps this line at its own width';
+    expect(layoutTextElement(makeText({ content, fontFamily }), CANVAS_WIDTH)).toMatchSnapshot();
+  });
+
+  it('bounds a rotated and scaled element', () => {
+    const element = makeText({ content: 'tilted\ntext', rotation: 30, scale: 1.5, x: 300, y: 500 });
+    expect(layoutTextElement(element, CANVAS_WIDTH)).toMatchSnapshot();
+  });
+
+  it('pads the box for a background and bleeds the bounds for effects', () => {
+    const element = makeText({
+      rotation: -15,
+      effects: {
+        background: { color: '#000000', shape: 'pill' },
+        outline: { color: '#FFFFFF', width: 12 },
+        shadow: { color: '#000000', offsetX: 10, offsetY: 10, blur: 0 },
+      },
+    });
+    expect(layoutTextElement(element, CANVAS_WIDTH)).toMatchSnapshot();
+  });
+});
+
+describe('cropToContent', () => {
+  it('has nothing to crop to on an empty canvas', () => {
+    expect(cropToContent([], CANVAS_WIDTH, CANVAS_HEIGHT)).toBeUndefined();
+  });
+
+  it('pads content and grows a thin band to the minimum height', () => {
+    const bounds = [{ left: 100, top: 900, right: 500, bottom: 1000 }];
+    expect(cropToContent(bounds, CANVAS_WIDTH, CANVAS_HEIGHT)).toMatchSnapshot();
+  });
+
+  it('slides a band past the top edge back onto the canvas', () => {
+    const bounds = [{ left: 100, top: -50, right: 500, bottom: 100 }];
+    expect(cropToContent(bounds, CANVAS_WIDTH, CANVAS_HEIGHT)).toMatchSnapshot();
+  });
+
+  it('spans several pieces of content', () => {
+    const bounds = [
+      { left: 100, top: 300, right: 500, bottom: 400 },
+      { left: 200, top: 1200, right: 900, bottom: 1500 },
+    ];
+    expect(cropToContent(bounds, CANVAS_WIDTH, CANVAS_HEIGHT)).toMatchSnapshot();
+  });
+});
+
+describe('layoutPost', () => {
+  it('lays out an empty canvas uncropped', () => {
+    expect(layoutPost(makePost())).toMatchSnapshot();
+  });
+
+  it('skips blank text elements', () => {
+    expect(layoutPost(makePost({ text_elements: [makeText({ content: '   ' })] }))).toMatchSnapshot();
+  });
+
+  it('crops to text, image layers and drawings together', () => {
+    const post = makePost({
+      text_elements: [makeText({ y: 400 }), makeText({ content: 'rotated', y: 900, rotation: 20, scale: 0.8 })],
+      image_layers: [
+        { kind: 'sticker', sticker_id: 'fire', z_index: 1, x: 700, y: 1100, width: 330, height: 330, scale: 1.2, rotation: 45 },
+      ],
+      drawing_layers: [
+        {
+          z_index: 0,
+          strokes: [
+            { id: 'pen', tool: 'pen', color: '#000000', width: 12, path: 'M 100 1300 L 400 1350' },
+            { id: 'eraser', tool: 'eraser', color: '#000000', width: 40, path: 'M 100 1800 L 900 1800' },
+          ],
+        },
+      ],
+    });
+    expect(layoutPost(post)).toMatchSnapshot();
+  });
+
+  it('includes a placed repost quote in the crop', () => {
+    const post = makePost({
+      repost_data: {
+        original_post_id: 'original',
+        screenshot_uri: 'https://example.com/original.png',
+        repost_geometry: {
+          x: 540, y: 800, width: 800, height: 600, scale: 1, rotation: 5,
+          crop: { left: 0, top: 0.1, right: 1, bottom: 0.9 },
+          opacity: 1,
+        },
+      },
+    });
+    expect(layoutPost(post)).toMatchSnapshot();
+  });
+
+  it('keeps the full canvas for a repost without a placed quote', () => {
+    const post = makePost({
+      text_elements: [makeText()],
+      repost_data: { original_post_id: 'original', screenshot_uri: 'https://example.com/original.png' },
+    });
+    expect(layoutPost(post)).toMatchSnapshot();
+  });
+});
+
+describe('buildPostLayout', () => {
+  it('describes an empty canvas without a crop', () => {
+    expect(buildPostLayout(makePost())).toMatchSnapshot();
+  });
+
+  it('versions the canvas and carries the content crop', () => {
+    const post = makePost({ text_elements: [makeText({ content: 'top', y: 200 }), makeText({ content: 'bottom', y: 700 })] });
+    expect(buildPostLayout(post)).toMatchSnapshot();
+  });
+});
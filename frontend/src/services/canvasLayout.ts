@@ -0,0 +1,193 @@
+import { Post, RepostCrop, RepostGeometry } from '../types';
+
+// Posts are laid out on a fixed logical canvas (9:16 portrait) so they look the same on every device
+export const CANVAS_WIDTH = 1080;
+export const CANVAS_HEIGHT = 1920;
+
+// Bump when the meaning of layout coordinates changes. Version 1 was raw screen pixels.
+export const LAYOUT_VERSION = 2;
+
+export interface CanvasPoint {
+  x: number;
+  y: number;
+}
+
+// Where the logical canvas sits on a given screen
+export interface CanvasViewport {
+  scale: number; // Screen points per canvas unit
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  height: number;
+}
+
+// Fits the whole canvas on screen, centered, letterboxing whichever side has room to spare
+export const getCanvasViewport = (screenWidth: number, screenHeight: number): CanvasViewport => {
+  const scale = Math.min(screenWidth / CANVAS_WIDTH, screenHeight / CANVAS_HEIGHT);
+  const width = CANVAS_WIDTH * scale;
+  const height = CANVAS_HEIGHT * scale;
+  return {
+    scale,
+    width,
+    height,
+    offsetX: (screenWidth - width) / 2,
+    offsetY: (screenHeight - height) / 2,
+  };
+};
+
+export const toScreenPoint = (viewport: CanvasViewport, point: CanvasPoint): CanvasPoint => ({
+  x: viewport.offsetX + point.x * viewport.scale,
+  y: viewport.offsetY + point.y * viewport.scale,
+});
+
+export const toCanvasPoint = (viewport: CanvasViewport, point: CanvasPoint): CanvasPoint => ({
+  x: (point.x - viewport.offsetX) / viewport.scale,
+  y: (point.y - viewport.offsetY) / viewport.scale,
+});
+
+// Applies a point mapping to every coordinate pair in an M/L/Q stroke path
+export const mapPathPoints = (path: string, map: (point: CanvasPoint) => CanvasPoint) => {
+  const numbers = path.match(/-?\d*\.?\d+/g)?.map(Number) || [];
+  const commands = path.match(/[A-Za-z]/g) || [];
+  const pairsPerCommand: Record<string, number> = { M: 1, L: 1, Q: 2 };
+
+  let index = 0;
+  return commands
+    .map(command => {
+      const pairs: string[] = [];
+      for (let i = 0; i < (pairsPerCommand[command.toUpperCase()] || 0); i++) {
+        const point = map({ x: numbers[index], y: numbers[index + 1] });
+        pairs.push(`${Math.round(point.x * 10) / 10} ${Math.round(point.y * 10) / 10}`);
+        index += 2;
+      }
+      return `${command}${pairs.join(' ')}`;
+    })
+    .join(' ');
+};
+
+export interface CanvasBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Axis-aligned box around a w x h box centered on (x, y) and rotated
+export const getRotatedBounds = (x: number, y: number, width: number, height: number, rotation: number): CanvasBounds => {
+  const radians = (rotation * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const halfWidth = (width / 2) * cos + (height / 2) * sin;
+  const halfHeight = (width / 2) * sin + (height / 2) * cos;
+  return { left: x - halfWidth, top: y - halfHeight, right: x + halfWidth, bottom: y + halfHeight };
+};
+
+export interface SnapResult {
+  dx: number; // Nudge to apply to the dragged element
+  dy: number;
+  guides: { x?: number; y?: number }; // Canvas lines being snapped to, if any
+}
+
+/**
+ * Snaps a dragged box to the canvas centre lines and to the edges and centres of other
+ * boxes, independently on each axis. Threshold is in canvas units.
+ */
+export const snapToGuides = (bounds: CanvasBounds, others: CanvasBounds[], threshold: number): SnapResult => {
+  const snapAxis = (own: number[], targets: number[]) => {
+    let best: { delta: number; target: number } | undefined;
+    targets.forEach(target => {
+      own.forEach(value => {
+        const delta = target - value;
+        if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+          best = { delta, target };
+        }
+      });
+    });
+    return best;
+  };
+
+  const x = snapAxis(
+    [bounds.left, (bounds.left + bounds.right) / 2, bounds.right],
+    [CANVAS_WIDTH / 2, ...others.flatMap(o => [o.left, (o.left + o.right) / 2, o.right])],
+  );
+  const y = snapAxis(
+    [bounds.top, (bounds.top + bounds.bottom) / 2, bounds.bottom],
+    [CANVAS_HEIGHT / 2, ...others.flatMap(o => [o.top, (o.top + o.bottom) / 2, o.bottom])],
+  );
+
+  return {
+    dx: x?.delta ?? 0,
+    dy: y?.delta ?? 0,
+    guides: { x: x?.target, y: y?.target },
+  };
+};
+
+export const FULL_REPOST_CROP: RepostCrop = { left: 0, top: 0, right: 1, bottom: 1 };
+
+// Thinnest slice of the original a crop can leave, as a fraction of it
+const MIN_REPOST_CROP = 0.1;
+
+export type CropEdge = keyof RepostCrop;
+
+/**
+ * Moves one crop edge of a quoted post by `delta` canvas units along the layer's own
+ * axis (before scale). The opposite edge stays put on the canvas, so the centre shifts
+ * by half the change, turned through the layer's rotation.
+ */
+export const cropRepostEdge = (start: RepostGeometry, edge: CropEdge, delta: number): RepostGeometry => {
+  const { crop } = start;
+  const horizontal = edge === 'left' || edge === 'right';
+  const size = horizontal ? start.width : start.height;
+  const fullSize = size / (horizontal ? crop.right - crop.left : crop.bottom - crop.top);
+
+  const fraction = delta / fullSize;
+  const next = { ...crop };
+  if (edge === 'left') next.left = Math.max(0, Math.min(crop.right - MIN_REPOST_CROP, crop.left + fraction));
+  if (edge === 'right') next.right = Math.min(1, Math.max(crop.left + MIN_REPOST_CROP, crop.right + fraction));
+  if (edge === 'top') next.top = Math.max(0, Math.min(crop.bottom - MIN_REPOST_CROP, crop.top + fraction));
+  if (edge === 'bottom') next.bottom = Math.min(1, Math.max(crop.top + MIN_REPOST_CROP, crop.bottom + fraction));
+
+  const nextSize = fullSize * (horizontal ? next.right - next.left : next.bottom - next.top);
+  const sign = edge === 'left' || edge === 'top' ? -1 : 1;
+  const shift = (sign * (nextSize - size) * start.scale) / 2;
+  const radians = (start.rotation * Math.PI) / 180;
+
+  return {
+    ...start,
+    crop: next,
+    width: horizontal ? nextSize : start.width,
+    height: horizontal ? start.height : nextSize,
+    x: start.x + (horizontal ? Math.cos(radians) : -Math.sin(radians)) * shift,
+    y: start.y + (horizontal ? Math.sin(radians) : Math.cos(radians)) * shift,
+  };
+};
+
+export interface DisplayCrop {
+  canvasWidth: number;
+  canvasHeight: number;
+  top: number;
+  bottom: number;
+}
+
+// How much of a post's rendered image to show in the feed, or null to fall back to the image's own aspect ratio
+export const getDisplayCrop = (post: Post): DisplayCrop | null => {
+  const { layout } = post;
+  if (layout && layout.version >= LAYOUT_VERSION) {
+    return {
+      canvasWidth: layout.canvas.width,
+      canvasHeight: layout.canvas.height,
+      top: layout.crop?.top ?? 0,
+      bottom: layout.crop?.bottom ?? layout.canvas.height,
+    };
+  }
+
+  // Legacy posts: the server measured the content band on the rendered image
+  const canvasWidth = post.image_width && post.image_width > 0 ? post.image_width : null;
+  const canvasHeight = post.image_height && post.image_height > 0 ? post.image_height : null;
+  const topY = typeof post.top_y === 'number' ? post.top_y : null;
+  const bottomY = typeof post.bottom_y === 'number' ? post.bottom_y : null;
+  if (canvasWidth && canvasHeight && topY !== null && bottomY !== null && bottomY > topY) {
+    return { canvasWidth, canvasHeight, top: topY, bottom: bottomY };
+  }
+  return null;
+};
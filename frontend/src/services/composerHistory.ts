@@ -0,0 +1,208 @@
+import { useCallback, useRef, useState } from 'react';
+import { CanvasBackground, ComposerImageLayer, ComposerTextElement, DrawingStroke, RepostGeometry } from '../types';
+
+// Every undoable composer edit, described as data so it can be inverted and merged
+export type ComposerCommand =
+  | {
+      type: 'update_element';
+      id: string;
+      before: Partial<ComposerTextElement>;
+      after: Partial<ComposerTextElement>;
+    }
+  | { type: 'add_element'; element: ComposerTextElement; index: number }
+  | { type: 'remove_element'; element: ComposerTextElement; index: number }
+  | { type: 'set_background'; before: CanvasBackground; after: CanvasBackground }
+  | { type: 'add_stroke'; stroke: DrawingStroke; index: number }
+  | { type: 'remove_stroke'; stroke: DrawingStroke; index: number }
+  | {
+      type: 'update_layer';
+      id: string;
+      before: Partial<ComposerImageLayer>;
+      after: Partial<ComposerImageLayer>;
+    }
+  | { type: 'add_layer'; layer: ComposerImageLayer; index: number }
+  | { type: 'remove_layer'; layer: ComposerImageLayer; index: number }
+  | { type: 'update_repost'; before: Partial<RepostGeometry>; after: Partial<RepostGeometry> };
+
+interface HistoryEntry {
+  command: ComposerCommand;
+  coalesceKey?: string;
+  recordedAt: number;
+}
+
+// Oldest steps fall off past this so a long session can't grow memory without bound
+const MAX_HISTORY = 50;
+
+// Edits sharing a coalesce key within this window collapse into one undo step
+const COALESCE_WINDOW_MS = 1000;
+
+export const invertCommand = (command: ComposerCommand): ComposerCommand => {
+  switch (command.type) {
+    case 'update_element':
+      return { ...command, before: command.after, after: command.before };
+    case 'add_element':
+      return { ...command, type: 'remove_element' };
+    case 'remove_element':
+      return { ...command, type: 'add_element' };
+    case 'set_background':
+      return { ...command, before: command.after, after: command.before };
+    case 'add_stroke':
+      return { ...command, type: 'remove_stroke' };
+    case 'remove_stroke':
+      return { ...command, type: 'add_stroke' };
+    case 'update_layer':
+      return { ...command, before: command.after, after: command.before };
+    case 'add_layer':
+      return { ...command, type: 'remove_layer' };
+    case 'remove_layer':
+      return { ...command, type: 'add_layer' };
+    case 'update_repost':
+      return { ...command, before: command.after, after: command.before };
+  }
+};
+
+export const applyElementCommand = (
+  elements: ComposerTextElement[],
+  command: ComposerCommand
+): ComposerTextElement[] => {
+  switch (command.type) {
+    case 'update_element':
+      return elements.map(el => (el.id === command.id ? { ...el, ...command.after } : el));
+    case 'add_element': {
+      const next = elements.filter(el => el.id !== command.element.id);
+      next.splice(Math.min(command.index, next.length), 0, command.element);
+      return next;
+    }
+    case 'remove_element':
+      return elements.filter(el => el.id !== command.element.id);
+    default:
+      return elements;
+  }
+};
+
+export const applyStrokeCommand = (
+  strokes: DrawingStroke[],
+  command: ComposerCommand
+): DrawingStroke[] => {
+  switch (command.type) {
+    case 'add_stroke': {
+      const next = strokes.filter(stroke => stroke.id !== command.stroke.id);
+      next.splice(Math.min(command.index, next.length), 0, command.stroke);
+      return next;
+    }
+    case 'remove_stroke':
+      return strokes.filter(stroke => stroke.id !== command.stroke.id);
+    default:
+      return strokes;
+  }
+};
+
+export const applyLayerCommand = (
+  layers: ComposerImageLayer[],
+  command: ComposerCommand
+): ComposerImageLayer[] => {
+  switch (command.type) {
+    case 'update_layer':
+      return layers.map(layer => (layer.id === command.id ? { ...layer, ...command.after } : layer));
+    case 'add_layer': {
+      const next = layers.filter(layer => layer.id !== command.layer.id);
+      next.splice(Math.min(command.index, next.length), 0, command.layer);
+      return next;
+    }
+    case 'remove_layer':
+      return layers.filter(layer => layer.id !== command.layer.id);
+    default:
+      return layers;
+  }
+};
+
+// Folds `next` into `previous` when both touch the same thing, otherwise null
+const mergeCommands = (previous: ComposerCommand, next: ComposerCommand): ComposerCommand | null => {
+  if (previous.type === 'update_element' && next.type === 'update_element' && previous.id === next.id) {
+    return {
+      ...next,
+      before: { ...next.before, ...previous.before },
+      after: { ...previous.after, ...next.after },
+    };
+  }
+  if (previous.type === 'update_layer' && next.type === 'update_layer' && previous.id === next.id) {
+    return {
+      ...next,
+      before: { ...next.before, ...previous.before },
+      after: { ...previous.after, ...next.after },
+    };
+  }
+  if (previous.type === 'update_repost' && next.type === 'update_repost') {
+    return {
+      ...next,
+      before: { ...next.before, ...previous.before },
+      after: { ...previous.after, ...next.after },
+    };
+  }
+  if (previous.type === 'set_background' && next.type === 'set_background') {
+    return { ...next, before: previous.before };
+  }
+  return null;
+};
+
+/**
+ * Undo/redo stacks for the composer. `run` applies a command to the canvas state;
+ * `execute` runs and records an edit, `record` only records one that is already on
+ * screen (e.g. the final position at the end of a drag).
+ */
+export const useComposerHistory = (run: (command: ComposerCommand) => void) => {
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<HistoryEntry[]>([]);
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  const record = useCallback((command: ComposerCommand, coalesceKey?: string) => {
+    const now = Date.now();
+    const past = pastRef.current;
+    const last = past[past.length - 1];
+
+    const merged = last && coalesceKey && last.coalesceKey === coalesceKey
+      && now - last.recordedAt < COALESCE_WINDOW_MS
+      ? mergeCommands(last.command, command)
+      : null;
+
+    pastRef.current = merged
+      ? [...past.slice(0, -1), { command: merged, coalesceKey, recordedAt: now }]
+      : [...past, { command, coalesceKey, recordedAt: now }].slice(-MAX_HISTORY);
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const execute = useCallback((command: ComposerCommand, coalesceKey?: string) => {
+    run(command);
+    record(command, coalesceKey);
+  }, [run, record]);
+
+  const undo = useCallback(() => {
+    const entry = pastRef.current[pastRef.current.length - 1];
+    if (!entry) return;
+    run(invertCommand(entry.command));
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [entry, ...futureRef.current];
+    bump();
+  }, [run]);
+
+  const redo = useCallback(() => {
+    const entry = futureRef.current[0];
+    if (!entry) return;
+    run(entry.command);
+    futureRef.current = futureRef.current.slice(1);
+    // Never coalesce into a redone step
+    pastRef.current = [...pastRef.current, { ...entry, coalesceKey: undefined }];
+    bump();
+  }, [run]);
+
+  return {
+    execute,
+    record,
+    undo,
+    redo,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+  };
+};
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Directory, File, Paths } from 'expo-file-system';
+import {
+  BackgroundPattern,
+  ComposerImageLayer,
+  ComposerTextElement,
+  DrawingStroke,
+  RepostData,
+} from '../types';
+import { readJson, writeJson } from './storage';
+import { LAYOUT_VERSION } from './canvasLayout';
+
+export interface Draft {
+  id: string;
+  textElements: ComposerTextElement[];
+  backgroundColor: string;
+  backgroundGradient: string[];
+  backgroundGradientAngle: number;
+  backgroundPattern?: BackgroundPattern;
+  drawingStrokes: DrawingStroke[];
+  imageLayers?: ComposerImageLayer[];
+  repostData?: RepostData;
+  layoutVersion: number; // The LAYOUT_VERSION the draft's canvas coordinates follow
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DraftContent = Pick<
+  Draft,
+  | 'textElements'
+  | 'backgroundColor'
+  | 'backgroundGradient'
+  | 'backgroundGradientAngle'
+  | 'backgroundPattern'
+  | 'drawingStrokes'
+  | 'imageLayers'
+  | 'repostData'
+>;
+
+type DraftsListener = (drafts: Draft[]) => void;
+
+const STORAGE_KEY = 'drafts';
+
+// Oldest drafts are dropped past this so storage can't grow forever
+const MAX_DRAFTS = 50;
+
+const photosDir = new Directory(Paths.document, 'drafts');
+const getDraftPhotosDir = (id: string) => new Directory(photosDir, id);
+
+/**
+ * Photos come from the picker's cache or ours, and the OS may clear either, so a draft keeps
+ * its own copies. Layers already pointing at this draft's copies are left alone.
+ */
+const persistPhotos = (id: string, layers: ComposerImageLayer[]) => {
+  const dir = getDraftPhotosDir(id);
+  return layers.map(layer => {
+    if (layer.kind !== 'photo' || !layer.uri || layer.uri.startsWith(dir.uri)) return layer;
+    try {
+      if (!dir.exists) dir.create({ intermediates: true });
+      const source = new File(layer.uri);
+      const copy = new File(dir, `${layer.id}-${source.name}`);
+      if (!copy.exists) source.copy(copy);
+      return { ...layer, uri: copy.uri };
+    } catch (error) {
+      console.error('Error persisting draft photo:', error);
+      return layer;
+    }
+  });
+};
+
+const deletePhotos = (id: string) => {
+  try {
+    const dir = getDraftPhotosDir(id);
+    if (dir.exists) dir.delete();
+  } catch (error) {
+    console.error('Error deleting draft photos:', error);
+  }
+};
+
+export const createDraftId = () =>
+  `draft-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// A draft is only worth keeping once it has text, a drawing, a photo/sticker or a repost in it
+export const isDraftEmpty = (content: DraftContent) =>
+  !content.repostData &&
+  !content.drawingStrokes.length &&
+  !content.imageLayers?.length &&
+  content.textElements.every(el => !el.content.trim());
+
+class DraftService {
+  private drafts: Draft[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<DraftsListener>();
+
+  load() {
+    if (!this.loadPromise) {
+      this.loadPromise = readJson<Draft[]>(STORAGE_KEY, []).then(stored => {
+        this.drafts = stored;
+        this.notify();
+      });
+    }
+    return this.loadPromise;
+  }
+
+  // Most recently edited first
+  getDrafts() {
+    return this.drafts;
+  }
+
+  getDraft(id: string) {
+    return this.drafts.find(draft => draft.id === id);
+  }
+
+  getLatestDraft(): Draft | undefined {
+    return this.drafts[0];
+  }
+
+  async saveDraft(id: string, content: DraftContent) {
+    await this.load();
+    const now = new Date().toISOString();
+    const existing = this.getDraft(id);
+    const draft: Draft = {
+      ...content,
+      imageLayers: content.imageLayers && persistPhotos(id, content.imageLayers),
+      id,
+      layoutVersion: LAYOUT_VERSION,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    const drafts = [draft, ...this.drafts.filter(d => d.id !== id)];
+    drafts.slice(MAX_DRAFTS).forEach(dropped => deletePhotos(dropped.id));
+    this.drafts = drafts.slice(0, MAX_DRAFTS);
+    this.save();
+    return draft;
+  }
+
+  async duplicateDraft(id: string) {
+    await this.load();
+    const original = this.getDraft(id);
+    if (!original) return undefined;
+    const {
+      textElements,
+      backgroundColor,
+      backgroundGradient,
+      backgroundGradientAngle,
+      backgroundPattern,
+      drawingStrokes,
+      imageLayers,
+      repostData,
+    } = original;
+    return this.saveDraft(createDraftId(), {
+      textElements,
+      backgroundColor,
+      backgroundGradient,
+      backgroundGradientAngle,
+      backgroundPattern,
+      drawingStrokes,
+      imageLayers,
+      repostData,
+    });
+  }
+
+  async deleteDraft(id: string) {
+    await this.load();
+    this.drafts = this.drafts.filter(draft => draft.id !== id);
+    this.save();
+    deletePhotos(id);
+  }
+
+  subscribe(listener: DraftsListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save() {
+    writeJson(STORAGE_KEY, this.drafts);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.drafts));
+  }
+}
+
+// Export singleton instance
+export const draftService = new DraftService();
+export default draftService;
+
+// Subscribes a component to the saved drafts
+export const useDrafts = () => {
+  const [drafts, setDrafts] = useState<Draft[]>(draftService.getDrafts());
+
+  useEffect(() => {
+    const unsubscribe = draftService.subscribe(setDrafts);
+    draftService.load();
+    setDrafts(draftService.getDrafts());
+    return unsubscribe;
+  }, []);
+
+  return drafts;
+};
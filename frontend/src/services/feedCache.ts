@@ -0,0 +1,26 @@
+import { FeedResponse } from '../types';
+import { readJson, writeJson } from './storage';
+
+// How many feed pages to keep on disk for instant, offline-capable launches
+const MAX_CACHED_PAGES = 3;
+
+const STORAGE_KEY = 'feed-cache';
+
+export type FeedPage = Pick<FeedResponse, 'results' | 'next'>;
+
+interface FeedCache {
+  pages: FeedPage[];
+  savedAt: string;
+}
+
+export const loadFeedCache = async (): Promise<FeedPage[]> => {
+  const cache = await readJson<FeedCache | null>(STORAGE_KEY, null);
+  return cache?.pages || [];
+};
+
+export const saveFeedCache = (pages: FeedPage[]) => {
+  writeJson(STORAGE_KEY, {
+    pages: pages.slice(0, MAX_CACHED_PAGES),
+    savedAt: new Date().toISOString(),
+  } as FeedCache);
+};
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Directory, File, Paths } from 'expo-file-system';
+
+// Rendered post images are downloaded here so previously seen posts still show offline
+const getCacheDirectory = () => new Directory(Paths.cache, 'post-images');
+
+// Least recently used images are evicted past this so the cache can't grow forever
+const MAX_CACHE_BYTES = 100 * 1024 * 1024;
+
+const inFlight = new Map<string, Promise<string>>();
+
+// When each cached file was last shown this launch. Files not shown yet fall back to their download time.
+const lastUsed = new Map<string, number>();
+
+// Stable file name per URL (djb2 hash + original extension)
+const getFileName = (url: string) => {
+  let hash = 5381;
+  for (let i = 0; i < url.length; i++) {
+    hash = ((hash << 5) + hash + url.charCodeAt(i)) | 0;
+  }
+  const extension = url.split('?')[0].match(/\.(png|jpe?g|webp|gif)$/i)?.[0] || '.png';
+  return `${(hash >>> 0).toString(16)}${extension}`;
+};
+
+const getCachedFile = (url: string) => new File(getCacheDirectory(), getFileName(url));
+
+const evictLeastRecentlyUsed = () => {
+  try {
+    const files = getCacheDirectory()
+      .list()
+      .filter((entry): entry is File => entry instanceof File)
+      .map(file => ({ file, size: file.size, usedAt: lastUsed.get(file.uri) ?? file.modificationTime ?? 0 }))
+      .sort((a, b) => a.usedAt - b.usedAt);
+
+    let total = files.reduce((sum, entry) => sum + entry.size, 0);
+    for (const { file, size } of files) {
+      if (total <= MAX_CACHE_BYTES) break;
+      file.delete();
+      lastUsed.delete(file.uri);
+      total -= size;
+    }
+  } catch (error) {
+    console.error('Error evicting cached images:', error);
+  }
+};
+
+export const getLocalImageUri = (url: string): string | null => {
+  try {
+    const file = getCachedFile(url);
+    if (!file.exists) return null;
+    lastUsed.set(file.uri, Date.now());
+    return file.uri;
+  } catch {
+    return null;
+  }
+};
+
+export const cacheImage = (url: string): Promise<string> => {
+  const local = getLocalImageUri(url);
+  if (local) return Promise.resolve(local);
+
+  const existing = inFlight.get(url);
+  if (existing) return existing;
+
+  const download = (async () => {
+    try {
+      const directory = getCacheDirectory();
+      if (!directory.exists) directory.create({ idempotent: true });
+      const file = await File.downloadFileAsync(url, getCachedFile(url));
+      lastUsed.set(file.uri, Date.now());
+      evictLeastRecentlyUsed();
+      return file.uri;
+    } catch (error) {
+      console.error('Error caching image:', error);
+      return url;
+    } finally {
+      inFlight.delete(url);
+    }
+  })();
+
+  inFlight.set(url, download);
+  return download;
+};
+
+// Local copy if we have one, otherwise the remote URL (downloaded in the background for next time).
+// We don't swap to the local file mid-display to avoid a reload flicker.
+export const useCachedImageUri = (url?: string) => {
+  const [uri, setUri] = useState(() => (url ? getLocalImageUri(url) || url : undefined));
+
+  useEffect(() => {
+    if (!url || /^(file|data|content):/i.test(url)) {
+      setUri(url);
+      return;
+    }
+    setUri(getLocalImageUri(url) || url);
+    cacheImage(url);
+  }, [url]);
+
+  return uri;
+};
@@ -0,0 +1,83 @@
+import { api, endpoints } from '../config/api';
+import { websocketService } from './websocket';
+
+// A post counts as viewed once it has been on screen this long
+const DWELL_THRESHOLD_MS = 1000;
+
+// How often batched impressions are sent
+const FLUSH_INTERVAL_MS = 15000;
+
+class ImpressionService {
+  private dwellTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Every post recorded this session - each post is only counted once per launch
+  private seen = new Set<string>();
+  private pending = new Set<string>();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private isFlushing = false;
+
+  start() {
+    if (this.flushTimer) return;
+    this.flushTimer = setInterval(() => {
+      this.flush();
+    }, FLUSH_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.dwellTimers.forEach(timer => clearTimeout(timer));
+    this.dwellTimers.clear();
+    this.flush();
+  }
+
+  // Post scrolled into view - count it if it's still there after the dwell threshold
+  startDwell(postId: string) {
+    if (this.seen.has(postId) || this.dwellTimers.has(postId)) return;
+    this.dwellTimers.set(postId, setTimeout(() => {
+      this.dwellTimers.delete(postId);
+      this.record(postId);
+    }, DWELL_THRESHOLD_MS));
+  }
+
+  // Post scrolled out of view before the threshold - don't count it
+  endDwell(postId: string) {
+    const timer = this.dwellTimers.get(postId);
+    if (timer) {
+      clearTimeout(timer);
+      this.dwellTimers.delete(postId);
+    }
+  }
+
+  async flush() {
+    if (this.isFlushing || this.pending.size === 0) return;
+
+    const postIds = Array.from(this.pending);
+    this.pending.clear();
+
+    // Prefer the open socket; fall back to the REST batch endpoint if it isn't written
+    if (websocketService.send({ type: 'impressions', post_ids: postIds })) return;
+
+    this.isFlushing = true;
+    try {
+      await api.post(endpoints.recordImpressions, { post_ids: postIds });
+    } catch (error) {
+      console.error('Error recording impressions:', error);
+      // Put them back for the next flush
+      postIds.forEach(id => this.pending.add(id));
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private record(postId: string) {
+    if (this.seen.has(postId)) return;
+    this.seen.add(postId);
+    this.pending.add(postId);
+  }
+}
+
+// Export singleton instance
+export const impressionService = new ImpressionService();
+export default impressionService;
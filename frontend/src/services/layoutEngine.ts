@@ -0,0 +1,281 @@
+import {
+  ComposerTextElement,
+  DrawingStroke,
+  LayerGeometry,
+  PostCreate,
+  PostLayout,
+  TextBackgroundShape,
+  TextEffects,
+  TextElement,
+} from '../types';
+import { getFont } from '../constants/fonts';
+import { CanvasBounds, getRotatedBounds, LAYOUT_VERSION, mapPathPoints } from './canvasLayout';
+
+/**
+ * The post layout engine: given a post payload, where every line of text lands, how big
+ * its background box is, and which band of the canvas the feed shows.
+ *
+ * This is the contract the server renderer follows, so it stays pure - no React Native,
+ * no measuring - and every number is in canvas units. Text is measured with each font's
+ * average advance (FontMetrics.widthFactor) rather than real glyph widths, so both sides
+ * wrap identically without sharing a text shaper.
+ */
+
+// Everything the engine reads from a payload - the layout it produces isn't an input
+export type PostLayoutInput = Omit<PostCreate, 'layout'>;
+
+// Text wraps this far in from each canvas edge, before the element's scale
+export const TEXT_MARGIN = 56;
+
+// Breathing room kept around content when cropping for the feed
+const CROP_PADDING = 80;
+
+// Never crop shorter than a 16:9 landscape strip of the canvas
+const MIN_CROP_ASPECT = 9 / 16;
+
+// Composer elements carry background modes and caps lock; wire elements have them resolved
+export type StyledTextElement = TextElement &
+  Partial<Pick<ComposerTextElement, 'backgroundMode' | 'backgroundShape' | 'capsLock'>>;
+
+// The text colour and effects as they are actually drawn - background mode resolved into a concrete box
+export const resolveTextEffects = (element: StyledTextElement) => {
+  if (!element.backgroundMode) return { color: element.color, effects: element.effects || {} };
+
+  let color = element.color;
+  let background: TextEffects['background'];
+  const shape = element.backgroundShape || 'box';
+
+  if (element.backgroundMode === 'white') {
+    background = { color: '#FFFFFF', shape };
+  } else if (element.backgroundMode === 'inverted') {
+    background = { color: element.color, shape };
+    color = '#FFFFFF';
+  }
+
+  const effects: TextEffects = { ...element.effects, background };
+  return { color, effects };
+};
+
+// A composer element as it goes over the wire, so the server needs no composer-only state
+export const serializeTextElement = (el: ComposerTextElement): TextElement => {
+  const { color, effects } = resolveTextEffects(el);
+  return {
+    content: el.capsLock ? el.content.toUpperCase() : el.content,
+    x: el.x,
+    y: el.y,
+    fontSize: el.fontSize,
+    scale: el.scale,
+    rotation: el.rotation,
+    color,
+    fontFamily: el.fontFamily,
+    hasBackground: !!effects.background,
+    backgroundColor: effects.background?.color || el.backgroundColor,
+    effects,
+  };
+};
+
+export interface BoxMetrics {
+  paddingX: number;
+  paddingY: number;
+  radius: number;
+}
+
+// Padding and corner radius of a text background. Highlights hug each line instead.
+export const getBoxMetrics = (shape: TextBackgroundShape | undefined, fontSize: number): BoxMetrics => {
+  if (!shape || shape === 'highlight') return { paddingX: 0, paddingY: 0, radius: 0 };
+  return {
+    paddingX: fontSize * 0.35,
+    paddingY: fontSize * 0.15,
+    radius: shape === 'pill' ? fontSize * 2 : shape === 'rounded' ? fontSize * 0.35 : fontSize * 0.1,
+  };
+};
+
+/**
+ * Greedy word wrap on estimated widths. Explicit newlines always break, runs of spaces
+ * collapse at a break, and a word longer than a whole line is split wherever it hits the edge.
+ */
+export const wrapText = (content: string, charWidth: number, maxWidth: number): string[] => {
+  const maxChars = Math.max(1, Math.floor(maxWidth / charWidth));
+
+  return content.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+
+    paragraph.split(/ +/).forEach(word => {
+      while (word.length > maxChars) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+        line = '';
+      }
+      if (!word) return;
+
+      const candidate = line ? `${line} ${word}` : word;
+      if (candidate.length > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+
+    lines.push(line);
+    return lines;
+  });
+};
+
+export interface TextLine {
+  text: string;
+  x: number; // Left edge within the box, before scale
+  y: number; // Top edge within the box, before scale
+  width: number;
+}
+
+export interface TextLayout {
+  element: TextElement;
+  width: number; // Box size including background padding, before scale and rotation
+  height: number;
+  lineHeight: number;
+  box: BoxMetrics;
+  lines: TextLine[];
+  bounds: CanvasBounds; // On the canvas, after scale and rotation, with room for effects
+}
+
+/**
+ * Lays one text element out as a box centered on (x, y), rotated then scaled. Lines are
+ * centered within the box; the box is as wide as the longest line plus background padding.
+ */
+export const layoutTextElement = (el: TextElement, canvasWidth: number): TextLayout => {
+  const { widthFactor, lineHeight: lineHeightFactor } = getFont(el.fontFamily).metrics;
+  const charWidth = el.fontSize * widthFactor;
+  const lineHeight = el.fontSize * lineHeightFactor;
+  const effects = el.effects || {};
+  const box = getBoxMetrics(effects.background?.shape, el.fontSize);
+
+  const texts = wrapText(el.content, charWidth, canvasWidth - TEXT_MARGIN * 2);
+  const contentWidth = Math.max(...texts.map(text => text.length * charWidth));
+  const width = contentWidth + box.paddingX * 2;
+  const height = texts.length * lineHeight + box.paddingY * 2;
+
+  const lines = texts.map((text, index) => {
+    const lineWidth = text.length * charWidth;
+    return { text, x: (width - lineWidth) / 2, y: box.paddingY + index * lineHeight, width: lineWidth };
+  });
+
+  // Outline, glow and shadow draw past the box
+  const { outline, glow, shadow } = effects;
+  const bleed = Math.max(
+    outline?.width || 0,
+    glow?.radius || 0,
+    shadow ? shadow.blur + Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY)) : 0,
+  );
+
+  return {
+    element: el,
+    width,
+    height,
+    lineHeight,
+    box,
+    lines,
+    bounds: getRotatedBounds(el.x, el.y, (width + bleed * 2) * el.scale, (height + bleed * 2) * el.scale, el.rotation),
+  };
+};
+
+export const getLayerBounds = (layer: LayerGeometry): CanvasBounds =>
+  getRotatedBounds(layer.x, layer.y, layer.width * layer.scale, layer.height * layer.scale, layer.rotation);
+
+// Erasing only removes ink, so it never grows the content
+export const getStrokeBounds = (stroke: DrawingStroke): CanvasBounds | null => {
+  if (stroke.tool === 'eraser') return null;
+
+  const bounds = { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity };
+  mapPathPoints(stroke.path, point => {
+    bounds.left = Math.min(bounds.left, point.x - stroke.width / 2);
+    bounds.top = Math.min(bounds.top, point.y - stroke.width / 2);
+    bounds.right = Math.max(bounds.right, point.x + stroke.width / 2);
+    bounds.bottom = Math.max(bounds.bottom, point.y + stroke.width / 2);
+    return point;
+  });
+  return isFinite(bounds.top) ? bounds : null;
+};
+
+/**
+ * The vertical band of the canvas that holds content, padded and clamped - this is what
+ * the feed shows. Undefined when there's nothing to crop to.
+ */
+export const cropToContent = (contents: CanvasBounds[], canvasWidth: number, canvasHeight: number): PostLayout['crop'] => {
+  if (contents.length === 0) return undefined;
+
+  let top = Math.min(...contents.map(bounds => bounds.top)) - CROP_PADDING;
+  let bottom = Math.max(...contents.map(bounds => bounds.bottom)) + CROP_PADDING;
+
+  const minHeight = Math.round(canvasWidth * MIN_CROP_ASPECT);
+  if (bottom - top < minHeight) {
+    const center = (top + bottom) / 2;
+    top = center - minHeight / 2;
+    bottom = center + minHeight / 2;
+  }
+
+  // Slide the band back onto the canvas before clamping so it keeps its height
+  if (top < 0) {
+    bottom -= top;
+    top = 0;
+  }
+  if (bottom > canvasHeight) {
+    top -= bottom - canvasHeight;
+    bottom = canvasHeight;
+  }
+  return { top: Math.max(0, Math.round(top)), bottom: Math.round(bottom) };
+};
+
+export interface PostRenderLayout {
+  canvas: { width: number; height: number };
+  texts: TextLayout[];
+  repost?: CanvasBounds;
+  imageLayers: CanvasBounds[];
+  strokes: CanvasBounds[];
+  crop?: { top: number; bottom: number };
+  top_y: number; // The crop as the server reports it, full canvas when uncropped
+  bottom_y: number;
+}
+
+// Reposts without a placed quote keep the full canvas, which the quote used to fill
+export const layoutPost = (input: PostLayoutInput): PostRenderLayout => {
+  const { canvas_width: width, canvas_height: height } = input;
+  const texts = (input.text_elements || [])
+    .filter(el => el.content.trim())
+    .map(el => layoutTextElement(el, width));
+  const imageLayers = (input.image_layers || []).map(getLayerBounds);
+  const strokes = (input.drawing_layers || [])
+    .flatMap(layer => layer.strokes)
+    .map(getStrokeBounds)
+    .filter((bounds): bounds is CanvasBounds => bounds !== null);
+
+  const repostGeometry = input.repost_data?.repost_geometry;
+  const repost = repostGeometry && getLayerBounds(repostGeometry);
+
+  const crop = input.repost_data && !repost
+    ? undefined
+    : cropToContent(
+        [...texts.map(text => text.bounds), ...(repost ? [repost] : []), ...imageLayers, ...strokes],
+        width,
+        height,
+      );
+
+  return {
+    canvas: { width, height },
+    texts,
+    repost,
+    imageLayers,
+    strokes,
+    crop,
+    top_y: crop?.top ?? 0,
+    bottom_y: crop?.bottom ?? height,
+  };
+};
+
+export const buildPostLayout = (input: PostLayoutInput): PostLayout => ({
+  version: LAYOUT_VERSION,
+  canvas: { width: input.canvas_width, height: input.canvas_height },
+  crop: layoutPost(input).crop,
+});
@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { Directory, File, Paths } from 'expo-file-system';
+import { Post, PostCreate } from '../types';
+import { readJson, writeJson } from './storage';
+import { submitPost, PostAttachment } from './postUpload';
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxItem {
+  id: string; // Also sent as the Idempotency-Key so retries never double-post
+  payload: PostCreate;
+  attachments?: PostAttachment[]; // Copied out of the picker cache so they survive until sent
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+type ItemsListener = (items: OutboxItem[]) => void;
+type PostedListener = (post: Post, item: OutboxItem) => void;
+
+const STORAGE_KEY = 'outbox';
+const attachmentsDir = new Directory(Paths.document, 'outbox');
+
+// Retry backoff: 2s, 4s, 8s ... capped at 5 minutes
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+// After this many automatic retries the item waits for the user to retry or discard
+const MAX_AUTO_RETRIES = 6;
+
+export const createIdempotencyKey = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Network failures, server errors and rate limits are worth retrying; other 4xx won't fix themselves
+export const isRetryableError = (error: any) => {
+  const status = error?.response?.status;
+  return !status || status >= 500 || status === 429 || status === 408;
+};
+
+const getErrorMessage = (error: any) =>
+  error?.response?.data?.detail || error?.response?.data?.error || error?.message || 'Failed to create post';
+
+const persistAttachments = (id: string, attachments: PostAttachment[]) =>
+  attachments.map(attachment => {
+    try {
+      if (!attachmentsDir.exists) attachmentsDir.create();
+      const copy = new File(attachmentsDir, `${id}-${attachment.name}`);
+      if (!copy.exists) new File(attachment.uri).copy(copy);
+      return { ...attachment, uri: copy.uri };
+    } catch (error) {
+      console.error('Error persisting outbox attachment:', error);
+      return attachment;
+    }
+  });
+
+const deleteAttachments = (item: OutboxItem) => {
+  item.attachments?.forEach(attachment => {
+    try {
+      const file = new File(attachment.uri);
+      // Only clean up our own copies, never the original picker files
+      if (file.exists && file.uri.startsWith(attachmentsDir.uri)) file.delete();
+    } catch (error) {
+      console.error('Error deleting outbox attachment:', error);
+    }
+  });
+};
+
+class OutboxService {
+  private items: OutboxItem[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private itemsListeners = new Set<ItemsListener>();
+  private postedListeners = new Set<PostedListener>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private isNetworkReachable = true;
+  private isProcessing = false;
+  // Bumped by every start() and stop(), so a start still loading knows it has been superseded
+  private generation = 0;
+
+  load() {
+    if (!this.loadPromise) {
+      this.loadPromise = readJson<OutboxItem[]>(STORAGE_KEY, []).then(stored => {
+        // Anything mid-send when the app died goes back in the queue
+        this.items = stored.map(item =>
+          item.status === 'sending' ? { ...item, status: 'pending' } : item
+        );
+        this.notify();
+      });
+    }
+    return this.loadPromise;
+  }
+
+  async start() {
+    const generation = ++this.generation;
+    await this.load();
+    if (generation !== this.generation) return;
+    if (!this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo = NetInfo.addEventListener((state: NetInfoState) => {
+        const reachable = state.isConnected !== false && state.isInternetReachable !== false;
+        const cameBack = reachable && !this.isNetworkReachable;
+        this.isNetworkReachable = reachable;
+        if (cameBack) {
+          // Connectivity is back - don't make queued posts wait out their backoff
+          this.items = this.items.map(item =>
+            item.status === 'pending' ? { ...item, nextAttemptAt: Date.now() } : item
+          );
+          this.process();
+        }
+      });
+    }
+    this.process();
+  }
+
+  stop() {
+    this.generation++;
+    if (this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo();
+      this.unsubscribeNetInfo = null;
+    }
+    this.clearRetryTimer();
+  }
+
+  getItems() {
+    return this.items;
+  }
+
+  async enqueue(payload: PostCreate, idempotencyKey: string, error?: any, attachments: PostAttachment[] = []) {
+    await this.load();
+    const item: OutboxItem = {
+      id: idempotencyKey,
+      payload,
+      attachments: persistAttachments(idempotencyKey, attachments),
+      status: 'pending',
+      attempts: error ? 1 : 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: error ? Date.now() + this.getRetryDelay(1) : Date.now(),
+      lastError: error ? getErrorMessage(error) : undefined,
+    };
+    this.items = [item, ...this.items.filter(existing => existing.id !== item.id)];
+    this.save();
+    this.scheduleNext();
+    return item;
+  }
+
+  retry(id: string) {
+    this.update(id, { status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined });
+    this.process();
+  }
+
+  discard(id: string) {
+    const item = this.items.find(existing => existing.id === id);
+    if (item) deleteAttachments(item);
+    this.items = this.items.filter(existing => existing.id !== id);
+    this.save();
+  }
+
+  subscribe(listener: ItemsListener) {
+    this.itemsListeners.add(listener);
+    return () => {
+      this.itemsListeners.delete(listener);
+    };
+  }
+
+  onPosted(listener: PostedListener) {
+    this.postedListeners.add(listener);
+    return () => {
+      this.postedListeners.delete(listener);
+    };
+  }
+
+  private async process() {
+    if (this.isProcessing || !this.isNetworkReachable) return;
+    this.isProcessing = true;
+    this.clearRetryTimer();
+
+    try {
+      // Oldest first so posts land in the order they were written
+      const due = this.items
+        .filter(item => item.status === 'pending' && item.nextAttemptAt <= Date.now())
+        .reverse();
+      for (const item of due) {
+        await this.send(item);
+      }
+    } finally {
+      this.isProcessing = false;
+      this.scheduleNext();
+    }
+  }
+
+  private async send(item: OutboxItem) {
+    this.update(item.id, { status: 'sending' });
+
+    try {
+      const response = await submitPost(item.payload, item.id, item.attachments);
+      deleteAttachments(item);
+      this.items = this.items.filter(existing => existing.id !== item.id);
+      this.save();
+      this.postedListeners.forEach(listener => listener(response.data, item));
+    } catch (error: any) {
+      console.error('Error sending queued post:', error);
+      const attempts = item.attempts + 1;
+      const giveUp = !isRetryableError(error) || attempts >= MAX_AUTO_RETRIES;
+      this.update(item.id, {
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: Date.now() + this.getRetryDelay(attempts),
+        lastError: getErrorMessage(error),
+      });
+    }
+  }
+
+  private scheduleNext() {
+    this.clearRetryTimer();
+    const nextAttemptAt = Math.min(
+      ...this.items.filter(item => item.status === 'pending').map(item => item.nextAttemptAt)
+    );
+    if (!isFinite(nextAttemptAt)) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.process();
+    }, Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private getRetryDelay(attempts: number) {
+    const exponential = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempts - 1));
+    // Up to 20% jitter so a batch of queued posts doesn't retry in lockstep
+    return exponential * (0.8 + Math.random() * 0.2);
+  }
+
+  private update(id: string, updates: Partial<OutboxItem>) {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...updates } : item));
+    this.save();
+  }
+
+  private save() {
+    writeJson(STORAGE_KEY, this.items);
+    this.notify();
+  }
+
+  private notify() {
+    this.itemsListeners.forEach(listener => listener(this.items));
+  }
+}
+
+// Export singleton instance
+export const outboxService = new OutboxService();
+export default outboxService;
+
+// Subscribes a component to the queued posts
+export const useOutbox = () => {
+  const [items, setItems] = useState<OutboxItem[]>(outboxService.getItems());
+
+  useEffect(() => {
+    const unsubscribe = outboxService.subscribe(setItems);
+    outboxService.load();
+    setItems(outboxService.getItems());
+    return unsubscribe;
+  }, []);
+
+  return items;
+};
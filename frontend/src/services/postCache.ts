@@ -0,0 +1,20 @@
+import { Post } from '../types';
+
+// In-memory cache of posts the app has already loaded, keyed by id.
+// Lets screens like PostDetail render instantly before refetching.
+const posts = new Map<string, Post>();
+
+export const cachePosts = (items: Post[]) => {
+  items.forEach(post => {
+    posts.set(post.id, post);
+    if (post.original_post) {
+      cachePosts([post.original_post]);
+    }
+  });
+};
+
+export const getCachedPost = (id: string): Post | undefined => posts.get(id);
+
+export const removeCachedPost = (id: string) => {
+  posts.delete(id);
+};
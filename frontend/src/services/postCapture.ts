@@ -0,0 +1,43 @@
+import { RefObject } from 'react';
+import { PixelRatio, Platform, View } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+import * as MediaLibrary from 'expo-media-library';
+import * as Sharing from 'expo-sharing';
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from './canvasLayout';
+import { PostAttachment } from './postUpload';
+
+// Multipart field holding the on-device render, used by the server when its own renderer is unavailable
+export const CLIENT_RENDER_FIELD = 'client_render';
+
+// view-shot takes the output size in points on iOS and in pixels on Android
+const toCaptureUnits = (pixels: number) => (Platform.OS === 'ios' ? pixels / PixelRatio.get() : pixels);
+
+// A view snapshotted to a PNG of exactly width x height pixels, in the cache directory
+export const captureImage = (view: RefObject<View | null>, width: number, height: number) =>
+  captureRef(view, {
+    format: 'png',
+    result: 'tmpfile',
+    width: toCaptureUnits(width),
+    height: toCaptureUnits(height),
+  });
+
+// The whole canvas at its logical size, the same resolution the server renders
+export const captureCanvas = async (view: RefObject<View | null>): Promise<PostAttachment> => {
+  const uri = await captureImage(view, CANVAS_WIDTH, CANVAS_HEIGHT);
+  return { field: CLIENT_RENDER_FIELD, uri, type: 'image/png', name: `${CLIENT_RENDER_FIELD}.png` };
+};
+
+// False when the user won't let us write to their photos
+export const saveToCameraRoll = async (uri: string) => {
+  const { granted } = await MediaLibrary.requestPermissionsAsync(true);
+  if (!granted) return false;
+  await MediaLibrary.saveToLibraryAsync(uri);
+  return true;
+};
+
+// False when the platform has no share sheet for files (web, mostly)
+export const shareImage = async (uri: string, dialogTitle: string) => {
+  if (!(await Sharing.isAvailableAsync())) return false;
+  await Sharing.shareAsync(uri, { mimeType: 'image/png', UTI: 'public.png', dialogTitle });
+  return true;
+};
@@ -0,0 +1,60 @@
+import { api, endpoints } from '../config/api';
+import { ComposerImageLayer, ImageLayer, Post, PostCreate } from '../types';
+
+// A local file sent as a multipart part alongside the post payload
+export interface PostAttachment {
+  field: string;
+  uri: string;
+  name: string;
+  type: string;
+}
+
+// Photo uploads need longer than the default API timeout on slow connections
+const UPLOAD_TIMEOUT_MS = 60000;
+
+// Drawing and image layers share one z_index space. The composer draws its single
+// drawing layer under every photo and sticker, so images start just above it.
+export const DRAWING_LAYER_Z_INDEX = 0;
+
+const getExtension = (mimeType: string) => (mimeType.split('/')[1] || 'jpg').replace('jpeg', 'jpg');
+
+// Turns composer layers into their wire format, collecting the photo files to upload
+export const serializeImageLayers = (layers: ComposerImageLayer[]) => {
+  const attachments: PostAttachment[] = [];
+  const imageLayers: ImageLayer[] = layers.map((layer, index) => {
+    const { id, kind, uri, mimeType, stickerId, ...geometry } = layer;
+    if (kind === 'photo' && uri) {
+      const field = `image_layer_${index}`;
+      const type = mimeType || 'image/jpeg';
+      attachments.push({ field, uri, type, name: `${field}.${getExtension(type)}` });
+      return { ...geometry, kind, z_index: DRAWING_LAYER_Z_INDEX + 1 + index, upload_field: field };
+    }
+    return { ...geometry, kind, z_index: DRAWING_LAYER_Z_INDEX + 1 + index, sticker_id: stickerId };
+  });
+  return { imageLayers, attachments };
+};
+
+/**
+ * Creates a post. Plain JSON unless there are files, in which case the post goes
+ * as a JSON `payload` part next to one file part per attachment.
+ */
+export const submitPost = (payload: PostCreate, idempotencyKey: string, attachments: PostAttachment[] = []) => {
+  const headers = { 'Idempotency-Key': idempotencyKey };
+
+  if (attachments.length === 0) {
+    return api.post<Post>(endpoints.createPost, payload, { headers });
+  }
+
+  const form = new FormData();
+  form.append('payload', JSON.stringify(payload));
+  attachments.forEach(({ field, uri, name, type }) => {
+    // React Native's FormData takes file descriptors in place of Blobs
+    form.append(field, { uri, name, type } as any);
+  });
+
+  return api.post<Post>(endpoints.createPost, form, {
+    // Must be explicit - the instance default is JSON, which makes axios serialize the form
+    headers: { ...headers, 'Content-Type': 'multipart/form-data' },
+    timeout: UPLOAD_TIMEOUT_MS,
+  });
+};
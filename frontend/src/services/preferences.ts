@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { readJson, writeJson } from './storage';
+
+export interface Preferences {
+  showPostDetails: boolean; // Author, time and views strip on feed posts
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  showPostDetails: true,
+};
+
+const STORAGE_KEY = 'preferences';
+
+type Listener = (preferences: Preferences) => void;
+
+let current: Preferences = DEFAULT_PREFERENCES;
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<Listener>();
+
+const notify = () => {
+  listeners.forEach(listener => listener(current));
+};
+
+export const loadPreferences = () => {
+  if (!loadPromise) {
+    loadPromise = readJson<Partial<Preferences>>(STORAGE_KEY, {}).then(stored => {
+      current = { ...DEFAULT_PREFERENCES, ...stored };
+      notify();
+    });
+  }
+  return loadPromise;
+};
+
+export const getPreferences = () => current;
+
+export const updatePreferences = (updates: Partial<Preferences>) => {
+  current = { ...current, ...updates };
+  writeJson(STORAGE_KEY, current);
+  notify();
+};
+
+// Subscribes a component to preference changes made anywhere in the app
+export const usePreferences = (): [Preferences, (updates: Partial<Preferences>) => void] => {
+  const [preferences, setPreferences] = useState(current);
+
+  useEffect(() => {
+    listeners.add(setPreferences);
+    loadPreferences();
+    setPreferences(current);
+    return () => {
+      listeners.delete(setPreferences);
+    };
+  }, []);
+
+  return [preferences, updatePreferences];
+};
@@ -0,0 +1,23 @@
+import { Post, ReactionId } from '../types';
+import { api, endpoints } from '../config/api';
+
+export type ReactionState = Pick<Post, 'reaction_counts' | 'my_reaction'>;
+
+// The counts once the viewer swaps their reaction for `reaction`, or takes it back with null
+export const applyReaction = (state: ReactionState, reaction: ReactionId | null): ReactionState => {
+  const previous = state.my_reaction ?? null;
+  if (previous === reaction) return state;
+
+  const counts = { ...state.reaction_counts };
+  if (previous) counts[previous] = Math.max(0, (counts[previous] || 0) - 1);
+  if (reaction) counts[reaction] = (counts[reaction] || 0) + 1;
+  return { reaction_counts: counts, my_reaction: reaction };
+};
+
+// The server replies with the authoritative counts, including everyone else's reactions since
+export const sendReaction = async (postId: string, reaction: ReactionId | null): Promise<ReactionState> => {
+  const response = reaction
+    ? await api.post<ReactionState>(endpoints.reactToPost(postId), { reaction })
+    : await api.delete<ReactionState>(endpoints.reactToPost(postId));
+  return response.data;
+};
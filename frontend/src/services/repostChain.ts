@@ -0,0 +1,72 @@
+import { FeedResponse, Post, RepostData } from '../types';
+import { api, endpoints } from '../config/api';
+import { cachePosts } from './postCache';
+
+// How many original_post hops to follow before giving up
+export const MAX_REPOST_DEPTH = 10;
+
+// Why a chain stopped: at a post that quotes nothing, at the depth limit, at a post it
+// already passed through, or at a repost whose original isn't embedded in the response
+export type RepostChainEnd = 'origin' | 'depth' | 'cycle' | 'missing';
+
+export interface RepostChain {
+  posts: Post[]; // Nearest original first
+  end: RepostChainEnd;
+}
+
+// Follows original_post from `from`, appending to `posts` and marking ids in `seen`
+const walk = (from: Post, posts: Post[], seen: Set<string>, maxDepth: number): RepostChainEnd => {
+  let current = from.original_post;
+  while (current) {
+    if (seen.has(current.id)) return 'cycle';
+    if (posts.length >= maxDepth) return 'depth';
+    seen.add(current.id);
+    posts.push(current);
+    current = current.original_post;
+  }
+  const last = posts[posts.length - 1] || from;
+  return last.is_repost ? 'missing' : 'origin';
+};
+
+// The lineage as far as it's embedded in the post we already have
+export const walkRepostChain = (post: Post, maxDepth = MAX_REPOST_DEPTH): RepostChain => {
+  const posts: Post[] = [];
+  const end = walk(post, posts, new Set([post.id]), maxDepth);
+  return { posts, end };
+};
+
+/**
+ * The full lineage. Responses only embed a few levels of original_post, so whenever the
+ * chain runs out on a repost, that link is refetched and the walk carries on from it.
+ */
+export const fetchRepostChain = async (post: Post, maxDepth = MAX_REPOST_DEPTH): Promise<RepostChain> => {
+  const posts: Post[] = [];
+  const seen = new Set([post.id]);
+  let end = walk(post, posts, seen, maxDepth);
+
+  while (end === 'missing') {
+    const last = posts[posts.length - 1] || post;
+    const { data } = await api.get<Post>(endpoints.getPost(last.id));
+    cachePosts([data]);
+    // The original is gone for good - removed, or hidden from this viewer
+    if (!data.original_post) break;
+    end = walk(data, posts, seen, maxDepth);
+  }
+
+  return { posts, end };
+};
+
+// One page of posts quoting this one, newest first
+export const fetchReposts = async (postId: string, cursor?: string) => {
+  const response = await api.get<FeedResponse>(endpoints.getPostReposts(postId), {
+    params: cursor ? { cursor } : {},
+  });
+  cachePosts(response.data.results);
+  return response.data;
+};
+
+// What the composer needs to quote a post. Undefined until the post has been rendered.
+export const buildRepostData = (post: Post): RepostData | undefined => {
+  if (!post.rendered_image_url) return undefined;
+  return { originalPost: post, screenshotUri: post.rendered_image_url };
+};
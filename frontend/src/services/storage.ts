@@ -0,0 +1,36 @@
+import { File, Paths } from 'expo-file-system';
+
+// Small JSON persistence helpers on top of the app's document directory.
+// Everything here is best-effort: a missing or corrupt file reads as the fallback.
+
+const getFile = (name: string) => new File(Paths.document, `${name}.json`);
+
+export const readJson = async <T>(name: string, fallback: T): Promise<T> => {
+  try {
+    const file = getFile(name);
+    if (!file.exists) return fallback;
+    return JSON.parse(await file.text()) as T;
+  } catch (error) {
+    console.error(`Error reading ${name} from storage:`, error);
+    return fallback;
+  }
+};
+
+export const writeJson = (name: string, value: unknown) => {
+  try {
+    const file = getFile(name);
+    if (!file.exists) file.create();
+    file.write(JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error writing ${name} to storage:`, error);
+  }
+};
+
+export const removeJson = (name: string) => {
+  try {
+    const file = getFile(name);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.error(`Error removing ${name} from storage:`, error);
+  }
+};
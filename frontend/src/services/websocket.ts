@@ -1,64 +1,107 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import { Post } from '../types';
+import { WS_BASE_URL } from '../config/api';
+import {
+  ClientMessage,
+  ServerMessage,
+  WebSocketEvent,
+  WebSocketEventHandler,
+  WebSocketEventMap,
+  parseServerMessage,
+} from './websocketProtocol';
 
-export interface WebSocketMessage {
-  type: 'new_post' | 'post_updated' | 'post_removed' | 'user_banned' | 'connection_established' | 'pong';
-  post?: Post;
-  post_data?: Post;
-  count?: number;
-  post_id?: string;
-  changes?: any;
-  reason?: string;
-  user_handle?: string;
-  post_ids?: string[];
-  message?: string;
-  timestamp?: string;
-}
+export * from './websocketProtocol';
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 30s, with full jitter. Retries never give up.
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
 
-export type WebSocketEventHandler = (message: WebSocketMessage) => void;
+// Heartbeat: ping every 25s, treat the socket as dead if no pong within 10s
+const HEARTBEAT_INTERVAL = 25000;
+const PONG_TIMEOUT = 10000;
 
 class WebSocketService {
   private ws: WebSocket | null = null;
   private url: string;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
   private isConnected = false;
-  private eventHandlers: { [key: string]: WebSocketEventHandler[] } = {};
+  private shouldReconnect = true;
+  private isNetworkReachable = true;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  // Newest post we know about - sent on reconnect so the server can backfill the gap
+  private lastSeenPostId: string | null = null;
+  private lastSeenTimestamp: string | null = null;
+  private eventHandlers: { [K in WebSocketEvent]?: WebSocketEventHandler<K>[] } = {};
 
-  constructor(baseUrl: string = 'ws://localhost:8000') {
+  constructor(baseUrl: string = WS_BASE_URL) {
     this.url = `${baseUrl}/ws/feed/`;
   }
 
   connect() {
+    // Already open or opening - nothing to do
+    if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
+      return;
+    }
+
+    // An explicit connect (mount, app foreground) starts the backoff over
+    this.shouldReconnect = true;
+    this.reconnectAttempts = 0;
+    this.watchNetwork();
+    this.open();
+  }
+
+  private open() {
+    this.clearReconnectTimer();
+    // A socket still connecting (e.g. when the network comes back) would otherwise be orphaned
+    this.detachSocket();
+
     try {
-      this.ws = new WebSocket(this.url);
-      
+      const socket = new WebSocket(this.url);
+      this.ws = socket;
+
       this.ws.onopen = () => {
+        if (this.ws !== socket) return;
         console.log('WebSocket connected');
         this.isConnected = true;
         this.reconnectAttempts = 0;
+        this.startHeartbeat();
         this.emit('connected', { type: 'connection_established' });
+        this.resume();
       };
 
       this.ws.onmessage = (event) => {
+        if (this.ws !== socket) return;
+        let raw: unknown;
         try {
-          const message: WebSocketMessage = JSON.parse(event.data);
-          this.handleMessage(message);
+          raw = JSON.parse(event.data);
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
+          this.emit('invalid_message', { type: 'invalid_message', error: 'Frame is not valid JSON', raw: event.data });
+          return;
+        }
+
+        const result = parseServerMessage(raw);
+        if (!result.ok) {
+          console.warn('Invalid WebSocket message:', result.error);
+          this.emit('invalid_message', { type: 'invalid_message', error: result.error, raw });
+          return;
         }
+        this.handleMessage(result.message);
       };
 
       this.ws.onclose = () => {
-        console.log('WebSocket disconnected');
-        this.isConnected = false;
-        this.emit('disconnected', { type: 'connection_established' });
-        this.handleReconnect();
+        // Ignore late closes from a socket we've already replaced or torn down
+        if (this.ws !== socket) return;
+        this.ws = null;
+        this.handleSocketClosed();
       };
 
       this.ws.onerror = (error) => {
         console.error('WebSocket error:', error);
-        this.emit('error', { type: 'connection_established', message: 'Connection error' });
+        this.emit('error', { type: 'error', message: 'Connection error' });
       };
     } catch (error) {
       console.error('Error connecting to WebSocket:', error);
@@ -67,6 +110,14 @@ class WebSocketService {
   }
 
   disconnect() {
+    // Intentional close - don't let onclose schedule a reconnect
+    this.shouldReconnect = false;
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+    if (this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo();
+      this.unsubscribeNetInfo = null;
+    }
     if (this.ws) {
       this.ws.close();
       this.ws = null;
@@ -75,10 +126,11 @@ class WebSocketService {
     this.reconnectAttempts = 0;
   }
 
-  send(message: any) {
-    if (this.ws && this.isConnected) {
-      this.ws.send(JSON.stringify(message));
-    }
+  // Whether the message was written to an open socket - callers that can't lose it fall back on false
+  send(message: ClientMessage): boolean {
+    if (!this.ws || !this.isConnected || this.ws.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(JSON.stringify(message));
+    return true;
   }
 
   ping() {
@@ -94,24 +146,38 @@ class WebSocketService {
     });
   }
 
-  on(event: string, handler: WebSocketEventHandler) {
-    if (!this.eventHandlers[event]) {
-      this.eventHandlers[event] = [];
+  // Whether the next connection will catch up with a resume - otherwise callers refetch
+  hasResumeCursor() {
+    return this.lastSeenPostId !== null;
+  }
+
+  // Remember the newest post the client has, so a reconnect can ask for everything after it
+  updateResumeCursor(post: Post) {
+    if (this.lastSeenTimestamp && new Date(post.created_at) <= new Date(this.lastSeenTimestamp)) {
+      return;
     }
-    this.eventHandlers[event].push(handler);
+    this.lastSeenPostId = post.id;
+    this.lastSeenTimestamp = post.created_at;
+  }
+
+  on<K extends WebSocketEvent>(event: K, handler: WebSocketEventHandler<K>) {
+    const handlers: WebSocketEventHandler<K>[] = this.eventHandlers[event] ?? [];
+    this.eventHandlers[event] = [...handlers, handler] as typeof this.eventHandlers[K];
   }
 
-  off(event: string, handler: WebSocketEventHandler) {
-    if (this.eventHandlers[event]) {
-      this.eventHandlers[event] = this.eventHandlers[event].filter(h => h !== handler);
+  off<K extends WebSocketEvent>(event: K, handler: WebSocketEventHandler<K>) {
+    const handlers: WebSocketEventHandler<K>[] | undefined = this.eventHandlers[event];
+    if (handlers) {
+      this.eventHandlers[event] = handlers.filter(h => h !== handler) as typeof this.eventHandlers[K];
     }
   }
 
-  private handleMessage(message: WebSocketMessage) {
+  private handleMessage(message: ServerMessage) {
     console.log('WebSocket message received:', message);
-    
+
     switch (message.type) {
       case 'new_post':
+        this.updateResumeCursor(message.post);
         this.emit('new_post', message);
         break;
       case 'post_updated':
@@ -123,35 +189,137 @@ class WebSocketService {
       case 'user_banned':
         this.emit('user_banned', message);
         break;
+      case 'reactions_updated':
+        this.emit('reactions_updated', message);
+        break;
+      case 'backfill':
+        message.posts.forEach(post => this.updateResumeCursor(post));
+        this.emit('backfill', message);
+        break;
       case 'connection_established':
-        this.emit('connected', message);
+        // 'connected' already went out from onopen
         break;
       case 'pong':
+        this.clearPongTimer();
         this.emit('pong', message);
         break;
-      default:
-        console.log('Unknown message type:', message.type);
     }
   }
 
-  private emit(event: string, message: WebSocketMessage) {
-    if (this.eventHandlers[event]) {
-      this.eventHandlers[event].forEach(handler => handler(message));
+  private emit<K extends WebSocketEvent>(event: K, message: WebSocketEventMap[K]) {
+    const handlers: WebSocketEventHandler<K>[] | undefined = this.eventHandlers[event];
+    handlers?.forEach(handler => handler(message));
+  }
+
+  private resume() {
+    if (!this.lastSeenPostId) return;
+    this.send({
+      type: 'resume',
+      since_post_id: this.lastSeenPostId,
+      since: this.lastSeenTimestamp,
+    });
+  }
+
+  private handleSocketClosed() {
+    console.log('WebSocket disconnected');
+    this.isConnected = false;
+    this.stopHeartbeat();
+    this.emit('disconnected', { type: 'disconnected' });
+    if (this.shouldReconnect) {
+      this.handleReconnect();
+    }
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.ping();
+      if (!this.pongTimer) {
+        this.pongTimer = setTimeout(() => {
+          console.log('WebSocket pong timed out, forcing reconnect');
+          this.forceReconnect();
+        }, PONG_TIMEOUT);
+      }
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearPongTimer();
+  }
+
+  private clearPongTimer() {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  // Half-open sockets may never fire onclose, so detach and tear down ourselves
+  private forceReconnect() {
+    this.detachSocket();
+    this.handleSocketClosed();
+  }
+
+  // Closes the current socket without letting any of its handlers fire again
+  private detachSocket() {
+    if (!this.ws) return;
+    this.ws.onopen = null;
+    this.ws.onmessage = null;
+    this.ws.onclose = null;
+    this.ws.onerror = null;
+    this.ws.close();
+    this.ws = null;
+  }
+
+  private watchNetwork() {
+    if (this.unsubscribeNetInfo) return;
+    this.unsubscribeNetInfo = NetInfo.addEventListener((state: NetInfoState) => {
+      const reachable = state.isConnected !== false && state.isInternetReachable !== false;
+      const cameBack = reachable && !this.isNetworkReachable;
+      this.isNetworkReachable = reachable;
+
+      if (!reachable) {
+        // No point burning attempts while offline - wait for the network to return
+        this.clearReconnectTimer();
+      } else if (cameBack && this.shouldReconnect && !this.isConnected) {
+        this.reconnectAttempts = 0;
+        this.open();
+      }
+    });
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
   }
 
+  private getReconnectDelay() {
+    const exponential = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts);
+    return Math.random() * exponential;
+  }
+
   private handleReconnect() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
-      
-      setTimeout(() => {
-        this.connect();
-      }, this.reconnectDelay * this.reconnectAttempts);
-    } else {
-      console.log('Max reconnection attempts reached');
-      this.emit('max_reconnects_reached', { type: 'connection_established' });
+    if (!this.isNetworkReachable) {
+      console.log('Offline, waiting for network before reconnecting');
+      return;
     }
+
+    const delay = this.getReconnectDelay();
+    this.reconnectAttempts++;
+    console.log(`Attempting to reconnect (attempt ${this.reconnectAttempts}) in ${Math.round(delay)}ms...`);
+
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.shouldReconnect) return;
+      this.open();
+    }, delay);
   }
 
   getConnectionStatus() {
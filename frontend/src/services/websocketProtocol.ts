@@ -0,0 +1,215 @@
+import { Post, ReactionCounts } from '../types';
+
+// ---- Server -> client frames ----
+
+export interface NewPostMessage {
+  type: 'new_post';
+  post: Post;
+  count?: number;
+  timestamp?: string;
+}
+
+export interface PostUpdatedMessage {
+  type: 'post_updated';
+  post_id: string;
+  changes: Partial<Post>;
+  timestamp?: string;
+}
+
+export interface PostRemovedMessage {
+  type: 'post_removed';
+  post_id: string;
+  reason?: string;
+  timestamp?: string;
+}
+
+export interface UserBannedMessage {
+  type: 'user_banned';
+  user_handle: string;
+  post_ids: string[];
+  reason?: string;
+  timestamp?: string;
+}
+
+// Aggregate counts only - each viewer's own reaction comes from the REST API
+export interface ReactionsUpdatedMessage {
+  type: 'reactions_updated';
+  post_id: string;
+  reaction_counts: ReactionCounts;
+  timestamp?: string;
+}
+
+export interface BackfillMessage {
+  type: 'backfill';
+  posts: Post[];
+}
+
+export interface ConnectionEstablishedMessage {
+  type: 'connection_established';
+  message?: string;
+  timestamp?: string;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  timestamp?: string;
+}
+
+export type ServerMessage =
+  | NewPostMessage
+  | PostUpdatedMessage
+  | PostRemovedMessage
+  | UserBannedMessage
+  | ReactionsUpdatedMessage
+  | BackfillMessage
+  | ConnectionEstablishedMessage
+  | PongMessage;
+
+// ---- Client -> server frames ----
+
+export interface PingMessage {
+  type: 'ping';
+  timestamp: string;
+}
+
+export interface JoinFeedMessage {
+  type: 'join_feed';
+}
+
+export interface ResumeMessage {
+  type: 'resume';
+  since_post_id: string;
+  since: string | null;
+}
+
+export interface ImpressionsMessage {
+  type: 'impressions';
+  post_ids: string[];
+}
+
+export type ClientMessage = PingMessage | JoinFeedMessage | ResumeMessage | ImpressionsMessage;
+
+// ---- Local connection lifecycle events (never sent over the wire) ----
+
+export interface DisconnectedEvent {
+  type: 'disconnected';
+}
+
+export interface ConnectionErrorEvent {
+  type: 'error';
+  message: string;
+}
+
+export interface InvalidMessageEvent {
+  type: 'invalid_message';
+  error: string;
+  raw: unknown;
+}
+
+// Payload type for each event name accepted by websocketService.on()
+export interface WebSocketEventMap {
+  new_post: NewPostMessage;
+  post_updated: PostUpdatedMessage;
+  post_removed: PostRemovedMessage;
+  user_banned: UserBannedMessage;
+  reactions_updated: ReactionsUpdatedMessage;
+  backfill: BackfillMessage;
+  connected: ConnectionEstablishedMessage;
+  pong: PongMessage;
+  disconnected: DisconnectedEvent;
+  error: ConnectionErrorEvent;
+  invalid_message: InvalidMessageEvent;
+}
+
+export type WebSocketEvent = keyof WebSocketEventMap;
+
+export type WebSocketEventHandler<K extends WebSocketEvent = WebSocketEvent> =
+  (message: WebSocketEventMap[K]) => void;
+
+// ---- Runtime validation ----
+
+export type ParseResult =
+  | { ok: true; message: ServerMessage }
+  | { ok: false; error: string };
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) =>
+  value === undefined || value === null || typeof value === 'string';
+
+// Only checks the fields the client relies on to key and render a post
+const isPost = (value: unknown): value is Post =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.created_at === 'string' &&
+  isObject(value.author) &&
+  typeof value.author.handle === 'string';
+
+const isReactionCounts = (value: unknown): value is ReactionCounts =>
+  isObject(value) && Object.values(value).every(count => typeof count === 'number');
+
+const fail = (error: string): ParseResult => ({ ok: false, error });
+
+export const parseServerMessage = (raw: unknown): ParseResult => {
+  if (!isObject(raw)) {
+    return fail('Frame is not a JSON object');
+  }
+  if (typeof raw.type !== 'string') {
+    return fail('Frame is missing a string "type"');
+  }
+  if (!isOptionalString(raw.timestamp)) {
+    return fail(`"${raw.type}" has a non-string timestamp`);
+  }
+
+  switch (raw.type) {
+    case 'new_post': {
+      // Older server builds send the post as post_data
+      const post = raw.post ?? raw.post_data;
+      if (!isPost(post)) return fail('new_post is missing a valid post');
+      return {
+        ok: true,
+        message: {
+          type: 'new_post',
+          post,
+          count: typeof raw.count === 'number' ? raw.count : undefined,
+          timestamp: raw.timestamp as string | undefined,
+        },
+      };
+    }
+    case 'post_updated':
+      if (typeof raw.post_id !== 'string') return fail('post_updated is missing post_id');
+      if (!isObject(raw.changes)) return fail('post_updated is missing a changes object');
+      return { ok: true, message: raw as unknown as PostUpdatedMessage };
+    case 'post_removed':
+      if (typeof raw.post_id !== 'string') return fail('post_removed is missing post_id');
+      if (!isOptionalString(raw.reason)) return fail('post_removed has a non-string reason');
+      return { ok: true, message: raw as unknown as PostRemovedMessage };
+    case 'user_banned':
+      if (typeof raw.user_handle !== 'string') return fail('user_banned is missing user_handle');
+      if (!Array.isArray(raw.post_ids) || !raw.post_ids.every(id => typeof id === 'string')) {
+        return fail('user_banned is missing a post_ids string array');
+      }
+      return { ok: true, message: raw as unknown as UserBannedMessage };
+    case 'reactions_updated':
+      if (typeof raw.post_id !== 'string') return fail('reactions_updated is missing post_id');
+      if (!isReactionCounts(raw.reaction_counts)) {
+        return fail('reactions_updated is missing a reaction_counts object of numbers');
+      }
+      return { ok: true, message: raw as unknown as ReactionsUpdatedMessage };
+    case 'backfill':
+      if (!Array.isArray(raw.posts) || !raw.posts.every(isPost)) {
+        return fail('backfill is missing a valid posts array');
+      }
+      return { ok: true, message: raw as unknown as BackfillMessage };
+    case 'connection_established':
+      if (!isOptionalString(raw.message)) return fail('connection_established has a non-string message');
+      return { ok: true, message: raw as unknown as ConnectionEstablishedMessage };
+    case 'pong':
+      return { ok: true, message: raw as unknown as PongMessage };
+    default:
+      return fail(`Unknown message type "${raw.type}"`);
+  }
+};
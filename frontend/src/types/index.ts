@@ -9,6 +9,25 @@ export interface User {
   shadowban_reason?: string;
 }
 
+// Font ids shared by posts, drafts and the server renderer - see FontRegistry in constants/fonts.ts
+export type FontId =
+  | 'arial-black'
+  | 'crimson-text'
+  | 'papyrus'
+  | 'impact'
+  | 'bangers'
+  | 'permanent-marker'
+  | 'space-mono'
+  | 'playfair-display'
+  | 'pacifico'
+  | 'press-start-2p';
+
+// Reaction ids shared with the server, which aggregates counts by id - see Reactions in constants/reactions.ts
+export type ReactionId = 'heart' | 'fire' | 'crying-laughing' | 'skull' | 'eyes' | 'clown';
+
+// Missing ids mean nobody has used that reaction
+export type ReactionCounts = Partial<Record<ReactionId, number>>;
+
 export interface Author {
   handle: string;
   avatar_color: string;
@@ -18,7 +37,7 @@ export interface Post {
   id: string;
   author: Author;
   text_content: string;
-  font_choice: 'impact' | 'mono' | 'rounded' | 'serif' | 'system';
+  font_choice: FontId;
   font_size: number;
   text_color: string;
   background_color: string;
@@ -30,48 +49,191 @@ export interface Post {
   rendered_image_url?: string;
   created_at: string;
   view_count: number;
+  reaction_counts?: ReactionCounts;
+  my_reaction?: ReactionId | null; // The viewer's own - one per post
   is_repost?: boolean;
   original_post?: Post;
   repost_screenshot_url?: string;
+  repost_geometry?: RepostGeometry; // Missing on reposts from before the quote was a layer
   image_width?: number;
   image_height?: number;
   top_y?: number;
   bottom_y?: number;
+  layout?: PostLayout;
+}
+
+// Versioned description of the logical canvas a post was composed on.
+// All layer coordinates in PostCreate are in canvas units.
+export interface PostLayout {
+  version: number;
+  canvas: {
+    width: number;
+    height: number;
+  };
+  crop?: {
+    top: number; // Vertical band of the canvas shown in the feed; omitted to show it all
+    bottom: number;
+  };
 }
 
+// Positioned text on the canvas. Drawn centered on (x, y), rotated then scaled,
+// so the visual size is fontSize * scale.
 export interface TextElement {
   content: string;
   x: number;
   y: number;
   fontSize: number;
+  scale: number;
+  rotation: number; // Degrees, clockwise
   color: string;
-  fontFamily: 'arial-black' | 'crimson-text' | 'papyrus' | 'impact';
+  fontFamily: FontId;
   hasBackground: boolean;
   backgroundColor: string;
+  effects?: TextEffects;
+}
+
+// Highlight puts a band behind each line rather than one box around the whole block
+export type TextBackgroundShape = 'box' | 'rounded' | 'pill' | 'highlight';
+
+// Per-element text effects. Sizes are in canvas units, before the element's scale.
+export interface TextEffects {
+  outline?: {
+    color: string;
+    width: number;
+  };
+  glow?: {
+    color: string;
+    radius: number;
+  };
+  shadow?: {
+    color: string;
+    offsetX: number;
+    offsetY: number;
+    blur: number;
+  };
+  background?: {
+    color: string;
+    shape: TextBackgroundShape;
+  };
+}
+
+// Text layer as edited in the composer (and saved in drafts) - adds editor-only state to TextElement
+export interface ComposerTextElement extends TextElement {
+  id: string;
+  originalX: number | null;
+  originalY: number | null;
+  backgroundMode: 'off' | 'white' | 'inverted';
+  backgroundShape?: TextBackgroundShape; // Box when unset
+  capsLock: boolean;
+}
+
+export type BrushTool = 'pen' | 'marker' | 'neon' | 'eraser';
+
+export interface DrawingStroke {
+  id: string;
+  tool: BrushTool;
+  color: string;
+  width: number;
+  path: string; // SVG path data in canvas coordinates
+}
+
+// Freehand strokes, drawn above the repost image and below text elements. z_index is in the
+// same space as ImageLayer's, and never equal to one. Eraser strokes clear whatever was drawn
+// before them in the same layer.
+export interface DrawingLayer {
+  z_index: number;
+  strokes: DrawingStroke[];
+}
+
+export interface LayerGeometry {
+  x: number; // Center, in canvas coordinates
+  y: number;
+  width: number; // Unscaled size, in canvas coordinates
+  height: number;
+  scale: number;
+  rotation: number; // Degrees, clockwise
+}
+
+// Fractions (0-1) of the original post's image that stay visible
+export interface RepostCrop {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// The quoted post on a repost's canvas. width/height are the visible, cropped part,
+// unscaled; the original image is drawn at the size that makes the crop fill that box.
+export interface RepostGeometry extends LayerGeometry {
+  crop: RepostCrop;
+  opacity: number; // 0-1
+}
+
+export type ImageLayerKind = 'photo' | 'sticker';
+
+// Photo or sticker placed on the composer canvas
+export interface ComposerImageLayer extends LayerGeometry {
+  id: string;
+  kind: ImageLayerKind;
+  uri?: string; // Local file, photos only
+  mimeType?: string;
+  stickerId?: string; // Key into the bundled sticker pack
+}
+
+// Drawn below text elements, stacked with drawing layers in z_index order.
+// Photos are uploaded as multipart file parts named by upload_field.
+export interface ImageLayer extends LayerGeometry {
+  kind: ImageLayerKind;
+  z_index: number;
+  upload_field?: string;
+  sticker_id?: string;
+}
+
+export type BackgroundPatternKind = 'stripes' | 'checkerboard' | 'noise';
+
+/**
+ * Procedural pattern drawn over the background colour or gradient. Cells are `size` canvas
+ * units, anchored at the canvas origin. Noise dots come from a mulberry32 PRNG seeded with `seed`.
+ */
+export interface BackgroundPattern {
+  kind: BackgroundPatternKind;
+  color: string;
+  size: number;
+  seed: number;
+}
+
+// Everything behind the layers: a colour, optionally a gradient over it, optionally a pattern over that
+export interface CanvasBackground {
+  color: string;
+  gradient: string[];
+  gradientAngle: number;
+  pattern?: BackgroundPattern;
 }
 
 export interface PostCreate {
   text_content: string;
   text_elements?: TextElement[]; // NEW: Array of positioned text elements
-  font_choice: 'arial-black' | 'crimson-text' | 'papyrus' | 'impact';
+  font_choice: FontId;
   font_size: number;
   text_color: string;
   background_color: string;
-  background_gradient?: string[];
+  background_gradient?: string[]; // Evenly spaced stops
+  background_gradient_angle?: number; // CSS convention: 180 runs top to bottom, 90 left to right
+  background_pattern?: BackgroundPattern;
   has_outline: boolean;
   outline_color: string;
   has_text_background?: boolean;
   text_background_color?: string;
   canvas_width: number;
   canvas_height: number;
+  layout: PostLayout;
+  drawing_layers?: DrawingLayer[];
+  image_layers?: ImageLayer[];
+  client_render_field?: string; // Multipart part holding an on-device PNG, used when the server can't render
   repost_data?: {
     original_post_id: string;
     screenshot_uri: string;
-    repost_geometry?: {
-      x: number;
-      y: number;
-      scale: number;
-    };
+    repost_geometry?: RepostGeometry; // Drawn above the background, below drawings
   };
 }
 
@@ -83,13 +245,15 @@ export interface FeedResponse {
 
 export type RootStackParamList = {
   Main: undefined;
-  PostComposer: { repostData?: RepostData };
+  PostComposer: { repostData?: RepostData; repostOf?: string; draftId?: string };
   PostDetail: { postId: string };
   Profile: undefined;
   Settings: undefined;
+  Drafts: undefined;
 };
 
 export interface RepostData {
   originalPost: Post;
   screenshotUri: string;
+  geometry?: RepostGeometry; // Set once the composer has placed the quote
 }